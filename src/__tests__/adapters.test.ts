@@ -0,0 +1,188 @@
+/**
+ * @jest-environment jsdom
+ */
+import { act, createElement } from 'react';
+import { createRoot, Root } from 'react-dom/client';
+import { effectScope, nextTick } from 'vue';
+import { acquireStore, releaseStore } from '../store';
+import { useVersionSentinel as useReactVersionSentinel, UseVersionSentinelResult } from '../react';
+import { useVersionSentinel as useVueVersionSentinel } from '../vue';
+
+(global as any).IS_REACT_ACT_ENVIRONMENT = true;
+
+describe('框架适配器', () => {
+  let fetchMock: jest.Mock;
+
+  const respondWith = (etag: string) => {
+    fetchMock.mockResolvedValueOnce({
+      ok: true,
+      status: 200,
+      statusText: 'OK',
+      headers: { get: (name: string) => (name === 'etag' ? etag : null) }
+    });
+  };
+
+  beforeEach(() => {
+    fetchMock = jest.fn();
+    global.fetch = fetchMock;
+  });
+
+  afterEach(() => {
+    global.fetch = undefined as unknown as typeof fetch;
+  });
+
+  describe('共享仓库', () => {
+    test('应该按 versionUrl 共享检查器并在最后一个使用者释放后销毁', () => {
+      const first = acquireStore({ autoStart: false, versionUrl: '/a' });
+      const second = acquireStore({ autoStart: false, versionUrl: '/a' });
+      const other = acquireStore({ autoStart: false, versionUrl: '/b' });
+      expect(second).toBe(first);
+      expect(other).not.toBe(first);
+
+      const destroy = jest.spyOn(first.checker, 'destroy');
+      releaseStore(first);
+      expect(destroy).not.toHaveBeenCalled();
+      releaseStore(second);
+      expect(destroy).toHaveBeenCalled();
+      expect(first.checker.status).toBe('destroyed');
+      expect(acquireStore({ autoStart: false, versionUrl: '/a' })).not.toBe(first);
+      releaseStore(other);
+    });
+
+    test('应该把检查器事件映射为状态', async () => {
+      const store = acquireStore({ autoStart: false, versionUrl: '/state', retryTimes: 0 });
+      const listener = jest.fn();
+      store.subscribe(listener);
+
+      respondWith('v1');
+      const pending = store.check();
+      expect(store.getState().checking).toBe(true);
+      await pending;
+      expect(store.getState()).toMatchObject({ checking: false, updateAvailable: false, error: null });
+      expect(store.getState().latest?.newVersion).toBe('v1');
+
+      respondWith('v2');
+      await store.check();
+      expect(store.getState().updateAvailable).toBe(true);
+
+      fetchMock.mockRejectedValueOnce(new Error('Network error'));
+      await expect(store.check()).resolves.toBeNull();
+      expect(store.getState()).toMatchObject({ checking: false, updateAvailable: true, error: expect.any(Error) });
+      expect(listener).toHaveBeenCalled();
+      releaseStore(store);
+    });
+  });
+
+  describe('React', () => {
+    let container: HTMLElement;
+    let root: Root;
+    let results: UseVersionSentinelResult[];
+
+    const Probe = ({ versionUrl }: { versionUrl: string }) => {
+      results.push(useReactVersionSentinel({ autoStart: false, versionUrl }));
+      return null;
+    };
+
+    beforeEach(() => {
+      results = [];
+      container = document.createElement('div');
+      root = createRoot(container);
+    });
+
+    test('应该返回响应式状态并在卸载时释放检查器', async () => {
+      await act(async () => {
+        root.render(createElement(Probe, { versionUrl: '/react' }));
+      });
+      const { checker } = results[results.length - 1];
+      expect(checker).not.toBeNull();
+      const stop = jest.spyOn(checker as NonNullable<typeof checker>, 'stop');
+
+      respondWith('v1');
+      await act(async () => {
+        await results[results.length - 1].check();
+      });
+      respondWith('v2');
+      await act(async () => {
+        await results[results.length - 1].check();
+      });
+
+      const latest = results[results.length - 1];
+      expect(latest.updateAvailable).toBe(true);
+      expect(latest.latest?.newVersion).toBe('v2');
+
+      await act(async () => {
+        root.unmount();
+      });
+      expect(stop).toHaveBeenCalled();
+    });
+
+    test('应该在多个组件间共享同一个检查器', async () => {
+      await act(async () => {
+        root.render(createElement('div', null,
+          createElement(Probe, { versionUrl: '/shared' }),
+          createElement(Probe, { versionUrl: '/shared' })
+        ));
+      });
+      const [a, b] = results.slice(-2);
+      expect(a.checker).not.toBeNull();
+      expect(a.checker).toBe(b.checker);
+
+      await act(async () => {
+        root.unmount();
+      });
+    });
+
+    test('挂载前应该返回初始状态', () => {
+      const Initial = () => {
+        results.push(useReactVersionSentinel({ autoStart: false, versionUrl: '/initial' }));
+        return null;
+      };
+      act(() => {
+        root.render(createElement(Initial));
+      });
+      expect(results[0]).toMatchObject({ updateAvailable: false, latest: null, checking: false, checker: null });
+      return expect(results[0].check()).resolves.toBeNull().finally(() => {
+        act(() => root.unmount());
+      });
+    });
+  });
+
+  describe('Vue', () => {
+    test('应该返回响应式状态并在作用域销毁时释放检查器', async () => {
+      const scope = effectScope();
+      const result = scope.run(() => useVueVersionSentinel({ autoStart: false, versionUrl: '/vue' }));
+      if (!result) {
+        throw new Error('effectScope 未返回结果');
+      }
+      const stop = jest.spyOn(result.checker, 'stop');
+
+      respondWith('v1');
+      await result.check();
+      respondWith('v2');
+      await result.check();
+      await nextTick();
+
+      expect(result.updateAvailable.value).toBe(true);
+      expect(result.latest.value?.newVersion).toBe('v2');
+      expect(result.checking.value).toBe(false);
+      expect(result.error.value).toBeNull();
+
+      scope.stop();
+      expect(stop).toHaveBeenCalled();
+    });
+
+    test('应该在多个作用域间共享同一个检查器', () => {
+      const first = effectScope();
+      const second = effectScope();
+      const a = first.run(() => useVueVersionSentinel({ autoStart: false, versionUrl: '/vue-shared' }));
+      const b = second.run(() => useVueVersionSentinel({ autoStart: false, versionUrl: '/vue-shared' }));
+      expect(a?.checker).toBe(b?.checker);
+
+      const stop = jest.spyOn(a!.checker, 'stop');
+      first.stop();
+      expect(stop).not.toHaveBeenCalled();
+      second.stop();
+      expect(stop).toHaveBeenCalled();
+    });
+  });
+});
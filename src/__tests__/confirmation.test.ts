@@ -0,0 +1,146 @@
+import { VersionChecker } from '../index';
+import { VersionCheckerOptions, VersionInfo } from '../types';
+
+describe('版本确认与回滚', () => {
+  let fetchMock: jest.Mock;
+  let updateHandler: jest.Mock;
+  let rollbackHandler: jest.Mock;
+
+  /** 依次返回的版本标记和节点,格式为 'etag@edge' */
+  const respondWith = (...responses: string[]) => {
+    responses.forEach(value => {
+      const [etag, edge] = value.split('@');
+      fetchMock.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        statusText: 'OK',
+        headers: { get: (name: string) => (name === 'etag' ? etag : name === 'x-served-by' ? edge ?? null : null) }
+      });
+    });
+  };
+
+  const createChecker = (options: VersionCheckerOptions = {}) => {
+    const checker = new VersionChecker({ autoStart: false, initialVersion: 'v1', ...options });
+    checker.on('update', updateHandler);
+    checker.on('rollback', rollbackHandler);
+    return checker;
+  };
+
+  const checkTimes = async (checker: VersionChecker, times: number) => {
+    const results = [];
+    for (let i = 0; i < times; i++) {
+      results.push(await checker.check());
+    }
+    return results;
+  };
+
+  beforeEach(() => {
+    fetchMock = jest.fn();
+    global.fetch = fetchMock;
+    updateHandler = jest.fn();
+    rollbackHandler = jest.fn();
+  });
+
+  afterEach(() => {
+    global.fetch = undefined as unknown as typeof fetch;
+  });
+
+  test('新版本标记应该在连续出现达到阈值后才视为更新', async () => {
+    const checker = createChecker({ confirmationThreshold: 2 });
+    respondWith('v2', 'v2');
+
+    const [first, second] = await checkTimes(checker, 2);
+    expect(first).toEqual(expect.objectContaining({ newVersion: 'v2', updateAvailable: false, unconfirmed: true }));
+    expect(second).toEqual(expect.objectContaining({ updateAvailable: true }));
+    expect(second).not.toHaveProperty('unconfirmed');
+    expect(updateHandler).toHaveBeenCalledTimes(1);
+  });
+
+  test('新旧版本标记交替出现时不应该触发更新', async () => {
+    const checker = createChecker({ confirmationThreshold: 2 });
+    respondWith('v2', 'v1', 'v2', 'v1', 'v3', 'v2');
+
+    await checkTimes(checker, 6);
+    expect(updateHandler).not.toHaveBeenCalled();
+  });
+
+  test('配置 edgeHeader 时应该按不同节点计数', async () => {
+    const checker = createChecker({ confirmationThreshold: 2, edgeHeader: 'x-served-by' });
+    respondWith('v2@edge-a', 'v1@edge-b', 'v2@edge-a', 'v1@edge-b', 'v2@edge-c');
+
+    const results = await checkTimes(checker, 5);
+    expect(results.map(info => info.updateAvailable)).toEqual([false, false, false, false, true]);
+    expect(updateHandler).toHaveBeenCalledTimes(1);
+  });
+
+  test('semver 模式下的降级也需要确认', async () => {
+    const checker = createChecker({ semver: true, initialVersion: '2.0.0', confirmationThreshold: 2, downgradePolicy: 'report' });
+    const downgradeHandler = jest.fn();
+    checker.on('downgrade', downgradeHandler);
+    respondWith('1.9.0', '2.0.0', '1.9.0', '1.9.0');
+
+    await checkTimes(checker, 3);
+    expect(downgradeHandler).not.toHaveBeenCalled();
+
+    await checker.check();
+    expect(downgradeHandler).toHaveBeenCalledTimes(1);
+  });
+
+  test('回到出现过的旧版本标记应该触发 rollback 事件而不是 update 事件', async () => {
+    const checker = createChecker();
+    respondWith('v2', 'v1');
+
+    await checker.check();
+    expect(updateHandler).toHaveBeenCalledTimes(1);
+
+    const info = await checker.check();
+    expect(info).toEqual(expect.objectContaining({
+      currentVersion: 'v2',
+      newVersion: 'v1',
+      updateAvailable: false,
+      rollback: true
+    }));
+    expect(rollbackHandler).toHaveBeenCalledTimes(1);
+    expect(updateHandler).toHaveBeenCalledTimes(1);
+  });
+
+  const outcomes = (results: VersionInfo[]) =>
+    results.map(info => (info.rollback ? 'rollback' : info.updateAvailable ? 'update' : 'none'));
+
+  test('回滚后重新发布被撤回的版本标记应该视为更新', async () => {
+    const checker = createChecker();
+    respondWith('v2', 'v1', 'v2');
+
+    const results = await checkTimes(checker, 3);
+    expect(outcomes(results)).toEqual(['update', 'rollback', 'update']);
+    expect(updateHandler).toHaveBeenCalledTimes(2);
+    expect(rollbackHandler).toHaveBeenCalledTimes(1);
+  });
+
+  test('从较新的版本回到更早的版本标记应该触发 rollback 事件', async () => {
+    const checker = createChecker();
+    respondWith('v2', 'v3', 'v1');
+
+    const results = await checkTimes(checker, 3);
+    expect(outcomes(results)).toEqual(['update', 'update', 'rollback']);
+    expect(results[2]).toEqual(expect.objectContaining({ currentVersion: 'v3', newVersion: 'v1' }));
+  });
+
+  test('每一次发布和回滚都应该通知', async () => {
+    const checker = createChecker();
+    respondWith('v2', 'v1', 'v2', 'v3', 'v1');
+
+    const results = await checkTimes(checker, 5);
+    expect(outcomes(results)).toEqual(['update', 'rollback', 'update', 'update', 'rollback']);
+  });
+
+  test('回滚应该取消等待中的自动刷新', async () => {
+    const onReload = jest.fn();
+    const checker = createChecker({ reloadPolicy: 'route-change', onReload });
+    respondWith('v2', 'v1');
+
+    await checkTimes(checker, 2);
+    expect(checker.attemptReload()).toBe(false);
+    expect(onReload).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,332 @@
+import { TabCoordinator } from '../coordinator';
+import { VersionChecker } from '../index';
+
+// 同步投递消息的 BroadcastChannel 模拟实现
+class FakeBroadcastChannel {
+  static channels: FakeBroadcastChannel[] = [];
+
+  onmessage: ((event: { data: unknown }) => void) | null = null;
+
+  constructor(public name: string) {
+    FakeBroadcastChannel.channels.push(this);
+  }
+
+  postMessage(data: unknown): void {
+    FakeBroadcastChannel.channels
+      .filter(channel => channel !== this && channel.name === this.name)
+      .forEach(channel => channel.onmessage?.({ data: JSON.parse(JSON.stringify(data)) }));
+  }
+
+  close(): void {
+    FakeBroadcastChannel.channels = FakeBroadcastChannel.channels.filter(channel => channel !== this);
+  }
+}
+
+describe('跨标签页协调', () => {
+  const originalBroadcastChannel = (global as any).BroadcastChannel;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    FakeBroadcastChannel.channels = [];
+    (global as any).BroadcastChannel = FakeBroadcastChannel;
+  });
+
+  afterEach(() => {
+    jest.clearAllTimers();
+    jest.useRealTimers();
+    (global as any).BroadcastChannel = originalBroadcastChannel;
+  });
+
+  describe('TabCoordinator', () => {
+    const createCoordinator = (channelName = 'test') => {
+      const leadership = jest.fn();
+      const data = jest.fn();
+      const coordinator = new TabCoordinator({
+        channelName,
+        onLeadershipChange: leadership,
+        onData: data
+      });
+      return { coordinator, leadership, data };
+    };
+
+    test('应该在无人应答时成为 leader', () => {
+      const { coordinator, leadership } = createCoordinator();
+      coordinator.start();
+      expect(coordinator.isLeader).toBe(false);
+
+      jest.advanceTimersByTime(1000);
+      expect(coordinator.isLeader).toBe(true);
+      expect(leadership).toHaveBeenCalledWith(true);
+      coordinator.stop();
+    });
+
+    test('应该只选出一个 leader', () => {
+      const tabs = [createCoordinator(), createCoordinator(), createCoordinator()];
+      tabs.forEach(({ coordinator }) => coordinator.start());
+
+      jest.advanceTimersByTime(5000);
+      expect(tabs.filter(({ coordinator }) => coordinator.isLeader)).toHaveLength(1);
+      tabs.forEach(({ coordinator }) => coordinator.stop());
+    });
+
+    test('应该让后加入的标签页成为 follower', () => {
+      const first = createCoordinator();
+      first.coordinator.start();
+      jest.advanceTimersByTime(1000);
+
+      const second = createCoordinator();
+      second.coordinator.start();
+      jest.advanceTimersByTime(10000);
+
+      expect(first.coordinator.isLeader).toBe(true);
+      expect(second.coordinator.isLeader).toBe(false);
+      expect(second.leadership).not.toHaveBeenCalled();
+      first.coordinator.stop();
+      second.coordinator.stop();
+    });
+
+    test('应该在 leader 退出后立即接任', () => {
+      const first = createCoordinator();
+      first.coordinator.start();
+      jest.advanceTimersByTime(1000);
+      const second = createCoordinator();
+      second.coordinator.start();
+      jest.advanceTimersByTime(1000);
+
+      first.coordinator.stop();
+      expect(second.coordinator.isLeader).toBe(true);
+      second.coordinator.stop();
+    });
+
+    test('应该在 leader 心跳超时后接任', () => {
+      const first = createCoordinator();
+      first.coordinator.start();
+      jest.advanceTimersByTime(1000);
+      const second = createCoordinator();
+      second.coordinator.start();
+      jest.advanceTimersByTime(1000);
+
+      // 模拟 leader 标签页被直接杀死,未能广播退位消息
+      clearInterval((first.coordinator as any).timer);
+      jest.advanceTimersByTime(2000);
+      expect(second.coordinator.isLeader).toBe(false);
+      jest.advanceTimersByTime(2000);
+      expect(second.coordinator.isLeader).toBe(true);
+      second.coordinator.stop();
+    });
+
+    test('应该向其他标签页广播数据', () => {
+      const first = createCoordinator();
+      const second = createCoordinator();
+      const other = createCoordinator('other');
+      [first, second, other].forEach(({ coordinator }) => coordinator.start());
+
+      first.coordinator.broadcast({ versionTag: 'v2' });
+      expect(second.data).toHaveBeenCalledWith({ versionTag: 'v2' }, false);
+      expect(first.data).not.toHaveBeenCalled();
+      expect(other.data).not.toHaveBeenCalled();
+      [first, second, other].forEach(({ coordinator }) => coordinator.stop());
+    });
+
+    test('应该由 leader 把最近一次广播的数据发送给新加入的标签页', () => {
+      const first = createCoordinator();
+      first.coordinator.start();
+      jest.advanceTimersByTime(1000);
+      first.coordinator.broadcast({ versionTag: 'v1' });
+
+      const second = createCoordinator();
+      second.coordinator.start();
+      expect(second.data).toHaveBeenCalledWith({ versionTag: 'v1' }, true);
+      first.coordinator.broadcast({ versionTag: 'v2' });
+      expect(second.data).toHaveBeenLastCalledWith({ versionTag: 'v2' }, false);
+      first.coordinator.stop();
+      second.coordinator.stop();
+    });
+
+    test('应该在页面进入往返缓存时退位,恢复时重新加入选举', () => {
+      const fakeWindow = new EventTarget();
+      Object.defineProperty(global, 'window', { configurable: true, value: fakeWindow });
+      try {
+        const { coordinator, leadership } = createCoordinator();
+        coordinator.start();
+        jest.advanceTimersByTime(1000);
+        expect(coordinator.isLeader).toBe(true);
+
+        fakeWindow.dispatchEvent(new Event('pagehide'));
+        expect(coordinator.isLeader).toBe(false);
+        jest.advanceTimersByTime(5000);
+        expect(coordinator.isLeader).toBe(false);
+
+        fakeWindow.dispatchEvent(Object.assign(new Event('pageshow'), { persisted: true }));
+        jest.advanceTimersByTime(1000);
+        expect(coordinator.isLeader).toBe(true);
+        expect(leadership.mock.calls).toEqual([[true], [false], [true]]);
+        coordinator.stop();
+      } finally {
+        delete (global as any).window;
+      }
+    });
+
+    test('应该在失去选举资格时退位', () => {
+      const first = createCoordinator();
+      first.coordinator.start();
+      jest.advanceTimersByTime(1000);
+      const second = createCoordinator();
+      second.coordinator.start();
+
+      first.coordinator.setEligible(false);
+      expect(first.coordinator.isLeader).toBe(false);
+      expect(second.coordinator.isLeader).toBe(true);
+      jest.advanceTimersByTime(10000);
+      expect(first.coordinator.isLeader).toBe(false);
+      first.coordinator.stop();
+      second.coordinator.stop();
+    });
+
+    test('应该在没有通信手段时直接成为 leader', () => {
+      (global as any).BroadcastChannel = undefined;
+      const { coordinator } = createCoordinator();
+      coordinator.start();
+      expect(coordinator.isLeader).toBe(true);
+      coordinator.setEligible(false);
+      expect(coordinator.isLeader).toBe(false);
+      coordinator.setEligible(true);
+      expect(coordinator.isLeader).toBe(true);
+      coordinator.stop();
+    });
+
+    describe('localStorage 回退', () => {
+      let fakeWindow: EventTarget;
+
+      beforeEach(() => {
+        (global as any).BroadcastChannel = undefined;
+        fakeWindow = new EventTarget();
+        const store = new Map<string, string>();
+        const tabs: EventTarget[] = [];
+        // 每个标签页拥有独立的 window,写入时向所有标签页派发 storage 事件(自身消息由协调器按 id 忽略)
+        Object.defineProperty(global, 'window', {
+          configurable: true,
+          get: () => fakeWindow
+        });
+        Object.defineProperty(global, 'localStorage', {
+          configurable: true,
+          value: {
+            setItem: (key: string, value: string) => {
+              store.set(key, value);
+              tabs.forEach(tab => {
+                tab.dispatchEvent(Object.assign(new Event('storage'), { key, newValue: value }));
+              });
+            }
+          }
+        });
+        (global as any).__tabs = tabs;
+      });
+
+      afterEach(() => {
+        delete (global as any).window;
+        delete (global as any).localStorage;
+        delete (global as any).__tabs;
+      });
+
+      const openTab = () => {
+        fakeWindow = new EventTarget();
+        (global as any).__tabs.push(fakeWindow);
+        const tab = createCoordinator();
+        tab.coordinator.start();
+        return { ...tab, window: fakeWindow as EventTarget };
+      };
+
+      test('应该通过 storage 事件选举并广播', () => {
+        const first = openTab();
+        jest.advanceTimersByTime(1000);
+        const second = openTab();
+        jest.advanceTimersByTime(5000);
+
+        expect(first.coordinator.isLeader).toBe(true);
+        expect(second.coordinator.isLeader).toBe(false);
+
+        first.coordinator.broadcast('payload');
+        expect(second.data).toHaveBeenCalledWith('payload', false);
+      });
+
+      test('应该忽略非法的 storage 数据', () => {
+        const tab = openTab();
+        tab.window.dispatchEvent(Object.assign(new Event('storage'), { key: 'test', newValue: '{' }));
+        expect(tab.data).not.toHaveBeenCalled();
+      });
+    });
+  });
+
+  describe('VersionChecker 跨标签页模式', () => {
+    const createResponse = (etag: string) => ({
+      ok: true,
+      status: 200,
+      statusText: 'OK',
+      headers: { get: (name: string) => (name === 'etag' ? etag : null) }
+    });
+
+    let fetchMock: jest.Mock;
+
+    beforeEach(() => {
+      fetchMock = jest.fn(() => Promise.resolve(createResponse('W/"1"')));
+      global.fetch = fetchMock;
+    });
+
+    afterEach(() => {
+      global.fetch = undefined as unknown as typeof fetch;
+    });
+
+    test('应该只由 leader 发起检查并把更新同步给 follower', async () => {
+      const options = { autoStart: false, checkInterval: 10000, crossTab: true, versionUrl: '/version' };
+      const leader = new VersionChecker(options);
+      const follower = new VersionChecker(options);
+      const leaderUpdate = jest.fn();
+      const followerUpdate = jest.fn();
+      leader.on('update', leaderUpdate);
+      follower.on('update', followerUpdate);
+
+      leader.start();
+      await jest.advanceTimersByTimeAsync(1000);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      // 没有基线版本的 follower 自行检查一次作为基线
+      follower.start();
+      await jest.advanceTimersByTimeAsync(1000);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+
+      fetchMock.mockImplementation(() => Promise.resolve(createResponse('W/"2"')));
+      await jest.advanceTimersByTimeAsync(9000);
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+      expect(leaderUpdate).toHaveBeenCalledTimes(1);
+      expect(followerUpdate).toHaveBeenCalledWith(expect.objectContaining({
+        payload: expect.objectContaining({ currentVersion: 'W/"1"', newVersion: 'W/"2"', updateAvailable: true })
+      }));
+
+      // leader 关闭后 follower 接任并立即检查
+      leader.stop();
+      await jest.advanceTimersByTimeAsync(0);
+      expect(fetchMock).toHaveBeenCalledTimes(4);
+      follower.stop();
+    });
+
+    test('新加入的标签页不应该把 leader 补发的过时数据作为基线', async () => {
+      const options = { autoStart: false, checkInterval: 60000, crossTab: true, versionUrl: '/version' };
+      const leader = new VersionChecker(options);
+      leader.start();
+      await jest.advanceTimersByTimeAsync(1000);
+
+      // leader 上一次广播的是 W/"1",新标签页打开时服务端已经是 W/"2"
+      fetchMock.mockImplementation(() => Promise.resolve(createResponse('W/"2"')));
+      const follower = new VersionChecker(options);
+      const followerUpdate = jest.fn();
+      follower.on('update', followerUpdate);
+      follower.start();
+      await jest.advanceTimersByTimeAsync(1000);
+
+      // leader 下一次检查广播 W/"2",对已运行 W/"2" 的新标签页不是更新
+      await jest.advanceTimersByTimeAsync(59000);
+      expect(followerUpdate).not.toHaveBeenCalled();
+      leader.stop();
+      follower.stop();
+    });
+  });
+});
@@ -0,0 +1,163 @@
+import { VersionCheckerGroup, createVersionCheckerGroup, HttpError } from '../index';
+
+describe('版本检查器组', () => {
+  let fetchMock: jest.Mock;
+  let versions: Record<string, string | Error>;
+  let group: VersionCheckerGroup | null;
+
+  const createGroup = (options: Partial<ConstructorParameters<typeof VersionCheckerGroup>[0]> = {}) => {
+    group = new VersionCheckerGroup({
+      autoStart: false,
+      checkInterval: 1000,
+      targets: [
+        { name: 'shell', versionUrl: '/shell', retryTimes: 0 },
+        { name: 'orders', versionUrl: '/orders', retryTimes: 0 },
+        { name: 'reports', versionUrl: '/reports', retryTimes: 0, checkInterval: 3000 }
+      ],
+      ...options
+    });
+    return group;
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    versions = { '/shell': 'shell-1', '/orders': 'orders-1', '/reports': 'reports-1' };
+    fetchMock = jest.fn((url: string) => {
+      const version = versions[url];
+      if (version instanceof Error) {
+        return Promise.reject(version);
+      }
+      return Promise.resolve({
+        ok: true,
+        status: 200,
+        statusText: 'OK',
+        headers: { get: (name: string) => (name === 'etag' ? version : null) }
+      });
+    });
+    global.fetch = fetchMock;
+    group = null;
+  });
+
+  afterEach(() => {
+    group?.destroy();
+    jest.clearAllTimers();
+    jest.useRealTimers();
+    global.fetch = undefined as unknown as typeof fetch;
+  });
+
+  test('应该检查所有目标并返回合并的版本信息', async () => {
+    const versionMap = await createGroup().check();
+
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(Object.keys(versionMap)).toEqual(['shell', 'orders', 'reports']);
+    expect(versionMap.orders).toMatchObject({ newVersion: 'orders-1', updateAvailable: false });
+    expect(group?.getVersions()).toEqual(versionMap);
+  });
+
+  test('应该触发带目标名称的 update 事件和一次汇总的 change 事件', async () => {
+    const checkerGroup = createGroup();
+    const updateHandler = jest.fn();
+    const changeHandler = jest.fn();
+    checkerGroup.on('update', updateHandler);
+    checkerGroup.on('change', changeHandler);
+
+    await checkerGroup.check();
+    expect(changeHandler).not.toHaveBeenCalled();
+
+    versions['/shell'] = 'shell-2';
+    versions['/reports'] = 'reports-2';
+    await checkerGroup.check();
+
+    expect(updateHandler).toHaveBeenCalledTimes(2);
+    expect(updateHandler.mock.calls.map(([event]) => event.payload.target)).toEqual(['shell', 'reports']);
+    expect(changeHandler).toHaveBeenCalledTimes(1);
+    expect(changeHandler.mock.calls[0][0].payload).toMatchObject({
+      targets: ['shell', 'reports'],
+      versions: {
+        shell: expect.objectContaining({ newVersion: 'shell-2', updateAvailable: true }),
+        orders: expect.objectContaining({ newVersion: 'orders-1', updateAvailable: false })
+      }
+    });
+  });
+
+  test('单个目标失败不应影响其他目标', async () => {
+    const checkerGroup = createGroup();
+    const errorHandler = jest.fn();
+    checkerGroup.on('error', errorHandler);
+    versions['/orders'] = new HttpError(500, 'Internal Server Error');
+
+    const versionMap = await checkerGroup.check();
+    expect(versionMap.orders).toBeNull();
+    expect(versionMap.shell).toMatchObject({ newVersion: 'shell-1' });
+    expect(errorHandler).toHaveBeenCalledWith(expect.objectContaining({
+      payload: { target: 'orders', error: expect.any(HttpError) }
+    }));
+  });
+
+  test('应该使用一个定时器按各目标的间隔调度', async () => {
+    createGroup({ autoStart: true });
+    await jest.advanceTimersByTimeAsync(0);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(jest.getTimerCount()).toBe(1);
+
+    await jest.advanceTimersByTimeAsync(2000);
+    expect(fetchMock.mock.calls.filter(([url]) => url === '/shell')).toHaveLength(3);
+    expect(fetchMock.mock.calls.filter(([url]) => url === '/reports')).toHaveLength(1);
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(fetchMock.mock.calls.filter(([url]) => url === '/reports')).toHaveLength(2);
+  });
+
+  test('检查间隔不是彼此的整数倍时应该按各自的间隔调度', async () => {
+    createGroup({
+      autoStart: true,
+      targets: [
+        { name: 'shell', versionUrl: '/shell', checkInterval: 60000 },
+        { name: 'orders', versionUrl: '/orders', checkInterval: 90000 },
+        { name: 'reports', versionUrl: '/reports', checkInterval: 150000 }
+      ]
+    });
+    await jest.advanceTimersByTimeAsync(360000);
+
+    const count = (url: string) => fetchMock.mock.calls.filter(([calledUrl]) => calledUrl === url).length;
+    expect(count('/shell')).toBe(7);
+    expect(count('/orders')).toBe(5);
+    expect(count('/reports')).toBe(3);
+    expect(jest.getTimerCount()).toBe(1);
+  });
+
+  test('在一轮检查之外发现更新时应该立即触发 change 事件', async () => {
+    const checkerGroup = createGroup();
+    const changeHandler = jest.fn();
+    checkerGroup.on('change', changeHandler);
+    await checkerGroup.check();
+
+    versions['/orders'] = 'orders-2';
+    await checkerGroup.getChecker('orders')?.check();
+    expect(changeHandler).toHaveBeenCalledWith(expect.objectContaining({
+      payload: expect.objectContaining({ targets: ['orders'] })
+    }));
+  });
+
+  test('stop() 应该停止调度,destroy() 应该销毁所有目标', async () => {
+    const checkerGroup = createGroup({ autoStart: true });
+    const checker = checkerGroup.getChecker('shell');
+    await jest.advanceTimersByTimeAsync(0);
+
+    checkerGroup.stop();
+    await jest.advanceTimersByTimeAsync(5000);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+
+    checkerGroup.destroy();
+    expect(checker?.status).toBe('destroyed');
+    expect(checkerGroup.getVersions()).toEqual({});
+    group = null;
+  });
+
+  test('应该拒绝重复的目标名称', () => {
+    expect(() => createVersionCheckerGroup({
+      autoStart: false,
+      targets: [{ name: 'app' }, { name: 'app' }]
+    })).toThrow('Duplicate version target name: app');
+  });
+});
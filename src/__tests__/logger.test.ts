@@ -0,0 +1,151 @@
+/**
+ * @jest-environment jsdom
+ */
+import { VersionChecker, createConsoleLogger } from '../index';
+import { isDebugEnabled } from '../logger';
+import { VersionCheckerLogger } from '../types';
+
+describe('日志', () => {
+  let fetchMock: jest.Mock;
+
+  const createLogger = (): jest.Mocked<VersionCheckerLogger> => ({
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn()
+  });
+
+  const respondWith = (etag: string) => fetchMock.mockResolvedValueOnce({
+    ok: true,
+    status: 200,
+    statusText: 'OK',
+    headers: { get: (name: string) => (name === 'etag' ? etag : null) }
+  });
+
+  beforeEach(() => {
+    fetchMock = jest.fn();
+    global.fetch = fetchMock;
+  });
+
+  afterEach(() => {
+    localStorage.clear();
+    window.history.replaceState(null, '', '/');
+    jest.restoreAllMocks();
+    global.fetch = undefined as unknown as typeof fetch;
+  });
+
+  describe('console logger', () => {
+    test('应该按级别过滤并带上前缀和上下文', () => {
+      const debug = jest.spyOn(console, 'debug').mockImplementation();
+      const warn = jest.spyOn(console, 'warn').mockImplementation();
+      const logger = createConsoleLogger('warn');
+
+      logger.debug('Sending version request', { url: '/' });
+      logger.warn('Retrying version check', { delay: 1000 });
+      logger.warn('Version rolled back');
+
+      expect(debug).not.toHaveBeenCalled();
+      expect(warn).toHaveBeenNthCalledWith(1, '[version-sentinel] Retrying version check', { delay: 1000 });
+      expect(warn).toHaveBeenNthCalledWith(2, '[version-sentinel] Version rolled back');
+    });
+
+    test('应该通过查询参数或 localStorage 开启调试日志', () => {
+      expect(isDebugEnabled()).toBe(false);
+
+      window.history.replaceState(null, '', '/?version-sentinel-debug');
+      expect(isDebugEnabled()).toBe(true);
+      window.history.replaceState(null, '', '/');
+
+      localStorage.setItem('version-sentinel-debug', '1');
+      expect(isDebugEnabled()).toBe(true);
+      localStorage.setItem('version-sentinel-debug', 'false');
+      expect(isDebugEnabled()).toBe(false);
+    });
+  });
+
+  describe('版本检查器', () => {
+    test('默认不应该输出日志', async () => {
+      const spies = (['debug', 'info', 'warn', 'error', 'log'] as const).map(level =>
+        jest.spyOn(console, level).mockImplementation()
+      );
+      const checker = new VersionChecker({ autoStart: false, initialVersion: 'v1' });
+      respondWith('v2');
+
+      await checker.check();
+      spies.forEach(spy => expect(spy).not.toHaveBeenCalled());
+    });
+
+    test('开启调试标记时默认输出 debug 日志', async () => {
+      const debug = jest.spyOn(console, 'debug').mockImplementation();
+      jest.spyOn(console, 'info').mockImplementation();
+      localStorage.setItem('version-sentinel-debug', 'true');
+      const checker = new VersionChecker({ autoStart: false });
+      respondWith('v1');
+
+      await checker.check();
+      expect(debug).toHaveBeenCalledWith('[version-sentinel] Sending version request', expect.objectContaining({
+        url: '/',
+        method: 'GET'
+      }));
+    });
+
+    test('应该输出请求、提取结果和更新的结构化日志', async () => {
+      const logger = createLogger();
+      const checker = new VersionChecker({ autoStart: false, initialVersion: 'v1', logger });
+      respondWith('v2');
+
+      await checker.check();
+      expect(logger.debug).toHaveBeenCalledWith('Sending version request', {
+        url: '/',
+        method: 'GET',
+        conditional: true
+      });
+      expect(logger.debug).toHaveBeenCalledWith('Version request completed', expect.objectContaining({
+        status: 200,
+        notModified: false
+      }));
+      expect(logger.debug).toHaveBeenCalledWith('Extracted version', {
+        compareStrategy: 'etag',
+        versionTag: 'v2',
+        manifest: false
+      });
+      expect(logger.info).toHaveBeenCalledWith('Update detected', expect.objectContaining({
+        currentVersion: 'v1',
+        newVersion: 'v2'
+      }));
+    });
+
+    test('应该输出重试决策和最终失败', async () => {
+      jest.useFakeTimers();
+      const logger = createLogger();
+      const checker = new VersionChecker({ autoStart: false, retryTimes: 1, retryInterval: 100, logger });
+      const error = new TypeError('Failed to fetch');
+      fetchMock.mockRejectedValue(error);
+
+      const result = checker.check();
+      const assertion = expect(result).rejects.toBe(error);
+      await jest.advanceTimersByTimeAsync(100);
+      await assertion;
+      jest.useRealTimers();
+
+      expect(logger.warn).toHaveBeenCalledWith('Version request failed', expect.objectContaining({ error }));
+      expect(logger.warn).toHaveBeenCalledWith('Retrying version check', { retryCount: 1, delay: 100, error });
+      expect(logger.error).toHaveBeenCalledWith('Version check failed', { retries: 1, error });
+    });
+
+    test('配置 logger 时监听器异常应该交给 logger.error', async () => {
+      const consoleError = jest.spyOn(console, 'error').mockImplementation();
+      const logger = createLogger();
+      const checker = new VersionChecker({ autoStart: false, logger });
+      const error = new Error('Listener error');
+      checker.on('version', () => {
+        throw error;
+      });
+      respondWith('v1');
+
+      await checker.check();
+      expect(logger.error).toHaveBeenCalledWith('Event listener error', { event: 'version', error });
+      expect(consoleError).not.toHaveBeenCalled();
+    });
+  });
+});
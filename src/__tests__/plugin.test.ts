@@ -0,0 +1,149 @@
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { BUILD_VERSION_DEFINE, createBuildManifest, esbuildPlugin, vitePlugin, webpackPlugin } from '../plugin';
+import { VersionChecker } from '../index';
+
+describe('构建插件', () => {
+  const options = { version: '2.4.1', gitHash: 'abc1234' };
+
+  describe('createBuildManifest', () => {
+    test('应该生成包含版本号、git 哈希和构建时间的清单', () => {
+      const manifest = createBuildManifest({ ...options, extra: { channel: 'beta' } });
+      expect(manifest).toEqual({
+        version: '2.4.1',
+        gitHash: 'abc1234',
+        buildTime: expect.any(Number),
+        channel: 'beta'
+      });
+    });
+
+    test('应该默认读取 package.json 的版本号', () => {
+      const { version } = JSON.parse(readFileSync(join(process.cwd(), 'package.json'), 'utf8'));
+      expect(createBuildManifest({ gitHash: null }).version).toBe(version);
+    });
+  });
+
+  describe('esbuildPlugin', () => {
+    let outdir: string;
+
+    beforeEach(() => {
+      outdir = mkdtempSync(join(tmpdir(), 'version-sentinel-'));
+    });
+
+    afterEach(() => {
+      rmSync(outdir, { recursive: true, force: true });
+    });
+
+    const runPlugin = (initialOptions: Record<string, any>, errors: unknown[] = []) => {
+      let onEnd: ((result: { errors: unknown[] }) => void) | undefined;
+      esbuildPlugin(options).setup({
+        initialOptions,
+        onEnd: callback => {
+          onEnd = callback;
+        }
+      });
+      onEnd?.({ errors });
+    };
+
+    test('应该注入版本常量并写入版本清单', () => {
+      const initialOptions: Record<string, any> = { outdir, define: { DEBUG: 'false' } };
+      runPlugin(initialOptions);
+
+      expect(initialOptions.define).toEqual({ DEBUG: 'false', [BUILD_VERSION_DEFINE]: '"2.4.1"' });
+      const manifest = JSON.parse(readFileSync(join(outdir, 'version.json'), 'utf8'));
+      expect(manifest).toMatchObject({ version: '2.4.1', gitHash: 'abc1234' });
+    });
+
+    test('应该写入 outfile 所在目录', () => {
+      runPlugin({ outfile: join(outdir, 'app.js') });
+      expect(() => readFileSync(join(outdir, 'version.json'))).not.toThrow();
+    });
+
+    test('应该在构建失败时跳过写入', () => {
+      runPlugin({ outdir }, [new Error('build failed')]);
+      expect(() => readFileSync(join(outdir, 'version.json'))).toThrow();
+    });
+  });
+
+  describe('vitePlugin', () => {
+    test('应该注入版本常量并输出版本清单资源', () => {
+      const plugin = vitePlugin({ ...options, fileName: 'meta/version.json' });
+      expect(plugin.config()).toEqual({ define: { [BUILD_VERSION_DEFINE]: '"2.4.1"' } });
+
+      const emitFile = jest.fn(() => 'ref');
+      plugin.generateBundle.call({ emitFile });
+      expect(emitFile).toHaveBeenCalledWith(expect.objectContaining({
+        type: 'asset',
+        fileName: 'meta/version.json'
+      }));
+      const [[file]] = emitFile.mock.calls as unknown as [[{ source: string }]];
+      expect(JSON.parse(file.source).version).toBe('2.4.1');
+    });
+  });
+
+  describe('webpackPlugin', () => {
+    test('应该通过 DefinePlugin 注入版本常量并输出版本清单资源', () => {
+      const defineApply = jest.fn();
+      const DefinePlugin = jest.fn(() => ({ apply: defineApply }));
+      const emitAsset = jest.fn();
+      const compilation = {
+        hooks: { processAssets: { tap: jest.fn((_options: unknown, callback: () => void) => callback()) } },
+        emitAsset
+      };
+      const compiler = {
+        webpack: {
+          DefinePlugin,
+          Compilation: { PROCESS_ASSETS_STAGE_ADDITIONAL: -2000 },
+          sources: { RawSource: jest.fn((source: string) => ({ source })) }
+        },
+        hooks: { thisCompilation: { tap: jest.fn((_name: string, callback: (c: typeof compilation) => void) => callback(compilation)) } }
+      };
+
+      webpackPlugin(options).apply(compiler);
+
+      expect(DefinePlugin).toHaveBeenCalledWith({ [BUILD_VERSION_DEFINE]: '"2.4.1"' });
+      expect(defineApply).toHaveBeenCalledWith(compiler);
+      expect(emitAsset).toHaveBeenCalledWith('version.json', { source: expect.stringContaining('"2.4.1"') });
+    });
+  });
+
+  describe('VersionChecker useBuildVersion', () => {
+    afterEach(() => {
+      delete (global as any)[BUILD_VERSION_DEFINE];
+    });
+
+    test('应该读取注入的版本号作为初始基线', async () => {
+      (global as any)[BUILD_VERSION_DEFINE] = '2.4.0';
+      global.fetch = jest.fn().mockResolvedValue({
+        ok: true,
+        status: 200,
+        statusText: 'OK',
+        headers: { get: () => null },
+        json: () => Promise.resolve({ version: '2.4.1' })
+      });
+
+      const checker = new VersionChecker({ autoStart: false, compareStrategy: 'json', useBuildVersion: true });
+      const info = await checker.check();
+      expect(info.currentVersion).toBe('2.4.0');
+      expect(info.updateAvailable).toBe(true);
+      global.fetch = undefined as unknown as typeof fetch;
+    });
+
+    test('应该在未注入版本号或未开启时忽略', async () => {
+      (global as any)[BUILD_VERSION_DEFINE] = '2.4.0';
+      const disabled = new VersionChecker({ autoStart: false });
+      expect((disabled as any).versionTag).toBeNull();
+
+      delete (global as any)[BUILD_VERSION_DEFINE];
+      const missing = new VersionChecker({ autoStart: false, useBuildVersion: true });
+      expect((missing as any).versionTag).toBeNull();
+    });
+
+    test('应该优先使用 initialVersion', () => {
+      (global as any)[BUILD_VERSION_DEFINE] = '2.4.0';
+      const checker = new VersionChecker({ autoStart: false, useBuildVersion: true, initialVersion: '9.9.9' });
+      expect((checker as any).versionTag).toBe('9.9.9');
+    });
+  });
+});
@@ -0,0 +1,195 @@
+import { VersionChecker, HttpError, TimeoutError } from '../index';
+import { parseReleaseMetadata, resolveReleaseNotesUrl } from '../release';
+
+describe('发布信息', () => {
+  describe('解析', () => {
+    test('应该解析发布说明、发布日期和关键更新标记', () => {
+      expect(parseReleaseMetadata({
+        version: '1.2.0',
+        notes: ['修复登录问题', '优化首页性能'],
+        releaseDate: Date.UTC(2024, 0, 2),
+        critical: true
+      })).toEqual({
+        notes: '修复登录问题\n优化首页性能',
+        releaseDate: '2024-01-02T00:00:00.000Z',
+        critical: true
+      });
+      expect(parseReleaseMetadata({ notes: '修复问题', releaseDate: '2024-01-02' })).toEqual({
+        notes: '修复问题',
+        releaseDate: '2024-01-02',
+        critical: false
+      });
+    });
+
+    test('不包含发布信息字段时应该返回 null', () => {
+      expect(parseReleaseMetadata({ version: '1.0.0' })).toBeNull();
+      expect(parseReleaseMetadata(null)).toBeNull();
+      expect(parseReleaseMetadata('1.0.0')).toBeNull();
+    });
+
+    test('应该把版本号填入更新日志地址模板', () => {
+      expect(resolveReleaseNotesUrl('/changelog/{version}.json?v={version}', '1.0.0+build/1'))
+        .toBe('/changelog/1.0.0%2Bbuild%2F1.json?v=1.0.0%2Bbuild%2F1');
+    });
+  });
+
+  describe('版本检查器', () => {
+    let fetchMock: jest.Mock;
+
+    const jsonResponse = (body: unknown, contentType = 'application/json') => ({
+      ok: true,
+      status: 200,
+      statusText: 'OK',
+      headers: { get: (name: string) => (name === 'content-type' ? contentType : null) },
+      json: () => Promise.resolve(body),
+      text: () => Promise.resolve(String(body))
+    });
+
+    beforeEach(() => {
+      fetchMock = jest.fn();
+      global.fetch = fetchMock;
+    });
+
+    afterEach(() => {
+      global.fetch = undefined as unknown as typeof fetch;
+    });
+
+    test('应该从版本清单中读取发布信息并放入 update 事件', async () => {
+      const checker = new VersionChecker({
+        autoStart: false,
+        compareStrategy: 'json',
+        releaseMetadata: true,
+        initialVersion: '1.0.0'
+      });
+      const updateHandler = jest.fn();
+      checker.on('update', updateHandler);
+      fetchMock.mockResolvedValueOnce(jsonResponse({ version: '1.1.0', notes: '新增导出功能', critical: true }));
+
+      const info = await checker.check();
+      expect(info.release).toEqual({ notes: '新增导出功能', releaseDate: null, critical: true });
+      expect(updateHandler.mock.calls[0][0].payload.release).toEqual(info.release);
+    });
+
+    test('应该按版本请求更新日志并缓存结果', async () => {
+      const checker = new VersionChecker({
+        autoStart: false,
+        compareStrategy: 'json',
+        releaseMetadata: true,
+        releaseNotesUrl: '/changelog/{version}.md',
+        headers: { Authorization: 'Bearer token' },
+        releaseNotesHeaders: { Accept: 'text/markdown' },
+        initialVersion: '1.0.0'
+      });
+      fetchMock
+        .mockResolvedValueOnce(jsonResponse({ version: '1.1.0' }))
+        .mockResolvedValueOnce(jsonResponse('## 1.1.0\n- 新增导出功能\n', 'text/markdown'))
+        .mockResolvedValueOnce(jsonResponse({ version: '1.1.0', mandatory: true }));
+
+      const info = await checker.check();
+      // 版本地址的鉴权请求头不会携带到更新日志地址
+      expect(fetchMock).toHaveBeenNthCalledWith(2, '/changelog/1.1.0.md', expect.objectContaining({
+        headers: { Accept: 'text/markdown' }
+      }));
+      expect(info.release).toEqual({ notes: '## 1.1.0\n- 新增导出功能', releaseDate: null, critical: false });
+
+      // 同一版本升级为强制更新、再次通知时使用缓存
+      const again = await checker.check();
+      expect(again.requirement).toBe('required');
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+      expect(again.release).toEqual(info.release);
+    });
+
+    test('请求更新日志失败时应该触发 error 事件并仍然通知更新', async () => {
+      const checker = new VersionChecker({
+        autoStart: false,
+        compareStrategy: 'json',
+        releaseMetadata: true,
+        releaseNotesUrl: '/changelog/{version}.json',
+        initialVersion: '1.0.0'
+      });
+      const errorHandler = jest.fn();
+      const updateHandler = jest.fn();
+      checker.on('error', errorHandler);
+      checker.on('update', updateHandler);
+      fetchMock
+        .mockResolvedValueOnce(jsonResponse({ version: '1.1.0' }))
+        .mockResolvedValueOnce({ ok: false, status: 404, statusText: 'Not Found', headers: { get: () => null } });
+
+      const info = await checker.check();
+      expect(info.release).toBeUndefined();
+      expect(updateHandler).toHaveBeenCalledTimes(1);
+      expect(errorHandler.mock.calls[0][0].payload).toBeInstanceOf(HttpError);
+    });
+
+    test('更新日志请求超时时应该照常通知更新且不阻塞后续检查', async () => {
+      jest.useFakeTimers();
+      const checker = new VersionChecker({
+        autoStart: false,
+        compareStrategy: 'json',
+        releaseMetadata: true,
+        releaseNotesUrl: '/changelog/{version}.json',
+        requestTimeout: 5000,
+        initialVersion: '1.0.0'
+      });
+      const errorHandler = jest.fn();
+      const updateHandler = jest.fn();
+      checker.on('error', errorHandler);
+      checker.on('update', updateHandler);
+      fetchMock.mockImplementation((url: string) => (url.startsWith('/changelog/')
+        ? new Promise(() => undefined)
+        : Promise.resolve(jsonResponse({ version: '1.1.0' }))));
+
+      const result = checker.check();
+      await jest.advanceTimersByTimeAsync(5000);
+      const info = await result;
+      jest.useRealTimers();
+
+      expect(info.release).toBeUndefined();
+      expect(updateHandler).toHaveBeenCalledTimes(1);
+      expect(errorHandler.mock.calls[0][0].payload).toBeInstanceOf(TimeoutError);
+      expect(checker.status).toBe('idle');
+    });
+
+    test('stop() 应该中断更新日志请求', async () => {
+      const checker = new VersionChecker({
+        autoStart: false,
+        compareStrategy: 'json',
+        releaseMetadata: true,
+        releaseNotesUrl: '/changelog/{version}.json',
+        initialVersion: '1.0.0'
+      });
+      const errorHandler = jest.fn();
+      checker.on('error', errorHandler);
+      let signal: AbortSignal | undefined;
+      fetchMock
+        .mockResolvedValueOnce(jsonResponse({ version: '1.1.0' }))
+        .mockImplementationOnce((_url: string, init: RequestInit) => {
+          signal = init.signal ?? undefined;
+          return new Promise(() => undefined);
+        });
+
+      const result = checker.check();
+      await new Promise(resolve => setTimeout(resolve, 0));
+      checker.stop();
+
+      const info = await result;
+      expect(info.updateAvailable).toBe(true);
+      expect(signal?.aborted).toBe(true);
+      expect(errorHandler).not.toHaveBeenCalled();
+    });
+
+    test('未开启时不应读取发布信息', async () => {
+      const checker = new VersionChecker({
+        autoStart: false,
+        compareStrategy: 'json',
+        releaseNotesUrl: '/changelog/{version}.json',
+        initialVersion: '1.0.0'
+      });
+      fetchMock.mockResolvedValueOnce(jsonResponse({ version: '1.1.0', notes: '新增导出功能' }));
+
+      const info = await checker.check();
+      expect(info.release).toBeUndefined();
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * @jest-environment jsdom
+ */
+import { VersionChecker } from '../index';
+import { ReloadPolicy, VersionCheckerOptions } from '../types';
+
+describe('自动刷新策略', () => {
+  let fetchMock: jest.Mock;
+  let onReload: jest.Mock;
+  let checker: VersionChecker;
+
+  const createChecker = (reloadPolicy: ReloadPolicy, options: VersionCheckerOptions = {}) => {
+    checker = new VersionChecker({
+      autoStart: false,
+      initialVersion: 'v1',
+      reloadPolicy,
+      onReload,
+      ...options
+    });
+    return checker;
+  };
+
+  const setVisibility = (state: DocumentVisibilityState) => {
+    Object.defineProperty(document, 'visibilityState', { configurable: true, get: () => state });
+    document.dispatchEvent(new Event('visibilitychange'));
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    onReload = jest.fn();
+    fetchMock = jest.fn(() => Promise.resolve({
+      ok: true,
+      status: 200,
+      statusText: 'OK',
+      headers: { get: (name: string) => (name === 'etag' ? 'v2' : null) }
+    }));
+    global.fetch = fetchMock;
+  });
+
+  afterEach(() => {
+    checker.destroy();
+    jest.clearAllTimers();
+    jest.useRealTimers();
+    setVisibility('visible');
+    global.fetch = undefined as unknown as typeof fetch;
+  });
+
+  test('manual 策略不应自动刷新', async () => {
+    await createChecker('manual').check();
+    expect(onReload).not.toHaveBeenCalled();
+    expect(checker.attemptReload()).toBe(false);
+  });
+
+  test('immediate 策略应该在发现更新后立即刷新', async () => {
+    const pendingHandler = jest.fn();
+    createChecker('immediate').on('reload-pending', pendingHandler);
+
+    await checker.check();
+    expect(onReload).toHaveBeenCalledWith(expect.objectContaining({ newVersion: 'v2' }));
+    expect(pendingHandler).toHaveBeenCalledWith(expect.objectContaining({
+      payload: expect.objectContaining({ policy: 'immediate', blockedBy: [] })
+    }));
+  });
+
+  test('route-change 策略应该在路由切换时刷新', async () => {
+    await createChecker('route-change').check();
+    expect(onReload).not.toHaveBeenCalled();
+
+    window.dispatchEvent(new PopStateEvent('popstate'));
+    expect(onReload).toHaveBeenCalledTimes(1);
+
+    // 刷新后不再响应路由切换
+    checker.notifyRouteChange();
+    window.dispatchEvent(new HashChangeEvent('hashchange'));
+    expect(onReload).toHaveBeenCalledTimes(1);
+  });
+
+  test('route-change 策略应该响应手动通知的路由切换', async () => {
+    await createChecker('route-change').check();
+    checker.notifyRouteChange();
+    expect(onReload).toHaveBeenCalledTimes(1);
+  });
+
+  test('idle 策略应该在用户空闲后刷新', async () => {
+    await createChecker('idle', { reloadIdleTimeout: 5000 }).check();
+
+    jest.advanceTimersByTime(4000);
+    window.dispatchEvent(new Event('keydown'));
+    jest.advanceTimersByTime(4000);
+    expect(onReload).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(1000);
+    expect(onReload).toHaveBeenCalledTimes(1);
+  });
+
+  test('hidden 策略应该在标签页进入后台时刷新', async () => {
+    await createChecker('hidden').check();
+    expect(onReload).not.toHaveBeenCalled();
+
+    setVisibility('hidden');
+    expect(onReload).toHaveBeenCalledTimes(1);
+  });
+
+  test('守卫否决时应该推迟刷新并报告阻止刷新的守卫', async () => {
+    let dirty = true;
+    const pendingHandler = jest.fn();
+    createChecker('route-change').on('reload-pending', pendingHandler);
+    checker.addReloadGuard('unsaved-form', () => !dirty);
+    checker.addReloadGuard('upload', () => undefined);
+
+    await checker.check();
+    checker.notifyRouteChange();
+    expect(onReload).not.toHaveBeenCalled();
+    expect(pendingHandler).toHaveBeenLastCalledWith(expect.objectContaining({
+      payload: expect.objectContaining({ blockedBy: ['unsaved-form'], info: expect.objectContaining({ newVersion: 'v2' }) })
+    }));
+
+    dirty = false;
+    expect(checker.attemptReload()).toBe(true);
+    expect(onReload).toHaveBeenCalledTimes(1);
+  });
+
+  test('移除守卫后应该允许刷新', async () => {
+    const removeGuard = createChecker('immediate').addReloadGuard('busy', () => false);
+    await checker.check();
+    expect(onReload).not.toHaveBeenCalled();
+
+    removeGuard();
+    expect(checker.attemptReload()).toBe(true);
+  });
+
+  test('确认待刷新的版本应该取消自动刷新', async () => {
+    await createChecker('hidden').check();
+    checker.acknowledge('v2');
+
+    setVisibility('hidden');
+    expect(onReload).not.toHaveBeenCalled();
+  });
+
+  test('销毁后应该取消自动刷新', async () => {
+    await createChecker('idle', { reloadIdleTimeout: 1000 }).check();
+    checker.destroy();
+
+    jest.advanceTimersByTime(1000);
+    expect(onReload).not.toHaveBeenCalled();
+  });
+});
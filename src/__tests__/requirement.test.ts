@@ -0,0 +1,182 @@
+import { VersionChecker } from '../index';
+import { isUpdateRequired, readVersionRequirement } from '../requirement';
+
+describe('强制更新', () => {
+  describe('解析', () => {
+    const headers = (values: Record<string, string>) => new Headers(values);
+
+    test('应该从版本清单中读取最低支持版本和强制更新标记', () => {
+      expect(readVersionRequirement({ version: '3.0.0', minSupportedVersion: '2.0.0' })).toEqual({
+        minSupportedVersion: '2.0.0',
+        mandatory: false
+      });
+      expect(readVersionRequirement({ version: '3.0.0', mandatory: true })).toEqual({
+        minSupportedVersion: null,
+        mandatory: true
+      });
+      expect(readVersionRequirement({ version: '3.0.0' })).toBeNull();
+    });
+
+    test('应该从响应头中读取更新要求,版本清单优先', () => {
+      expect(readVersionRequirement(undefined, headers({
+        'X-Min-Supported-Version': '2.0.0',
+        'X-Update-Mandatory': 'TRUE'
+      }))).toEqual({ minSupportedVersion: '2.0.0', mandatory: true });
+      expect(readVersionRequirement(undefined, headers({ 'X-Update-Mandatory': '0' }))).toBeNull();
+      expect(readVersionRequirement(
+        { minSupportedVersion: '1.5.0' },
+        headers({ 'X-Min-Supported-Version': '2.0.0' })
+      )?.minSupportedVersion).toBe('1.5.0');
+    });
+
+    test('应该按语义化版本比较最低支持版本', () => {
+      const requirement = { minSupportedVersion: '2.0.0', mandatory: false };
+      expect(isUpdateRequired(requirement, 'v1.9.9')).toBe(true);
+      expect(isUpdateRequired(requirement, '2.0.0')).toBe(false);
+      expect(isUpdateRequired(requirement, 'W/"abc"')).toBe(false);
+      expect(isUpdateRequired({ minSupportedVersion: null, mandatory: true }, 'W/"abc"')).toBe(true);
+      expect(isUpdateRequired(null, '1.0.0')).toBe(false);
+    });
+  });
+
+  describe('版本检查器', () => {
+    let fetchMock: jest.Mock;
+
+    const response = (body: unknown, headerValues: Record<string, string> = {}) => ({
+      ok: true,
+      status: 200,
+      statusText: 'OK',
+      headers: new Headers(headerValues),
+      json: () => Promise.resolve(body)
+    });
+
+    beforeEach(() => {
+      fetchMock = jest.fn();
+      global.fetch = fetchMock;
+    });
+
+    afterEach(() => {
+      global.fetch = undefined as unknown as typeof fetch;
+    });
+
+    test('当前版本低于最低支持版本时应该触发 update-required 事件', async () => {
+      const checker = new VersionChecker({ autoStart: false, compareStrategy: 'json', initialVersion: '1.2.0' });
+      const updateHandler = jest.fn();
+      const requiredHandler = jest.fn();
+      checker.on('update', updateHandler);
+      checker.on('update-required', requiredHandler);
+      fetchMock.mockResolvedValue(response({ version: '2.1.0', minSupportedVersion: '2.0.0' }));
+
+      const info = await checker.check();
+      expect(info.requirement).toBe('required');
+      expect(info.minSupportedVersion).toBe('2.0.0');
+      expect(updateHandler).toHaveBeenCalledTimes(1);
+      expect(requiredHandler).toHaveBeenCalledWith(expect.objectContaining({
+        payload: expect.objectContaining({ newVersion: '2.1.0', requirement: 'required' })
+      }));
+    });
+
+    test('满足最低支持版本时应该视为可选更新', async () => {
+      const checker = new VersionChecker({ autoStart: false, compareStrategy: 'json', initialVersion: '2.0.0' });
+      const requiredHandler = jest.fn();
+      checker.on('update-required', requiredHandler);
+      fetchMock.mockResolvedValue(response({ version: '2.1.0', minSupportedVersion: '2.0.0' }));
+
+      const info = await checker.check();
+      expect(info.requirement).toBe('optional');
+      expect(requiredHandler).not.toHaveBeenCalled();
+    });
+
+    test('应该按页面实际运行的版本而不是最新的基线判断最低支持版本', async () => {
+      const checker = new VersionChecker({ autoStart: false, compareStrategy: 'json', initialVersion: '1.0.0' });
+      fetchMock
+        .mockResolvedValueOnce(response({ version: '1.5.0', minSupportedVersion: '1.0.0' }))
+        .mockResolvedValueOnce(response({ version: '2.0.0', minSupportedVersion: '1.2.0' }));
+
+      const first = await checker.check();
+      expect(first.requirement).toBe('optional');
+
+      // 页面没有刷新，运行的仍是 1.0.0
+      const second = await checker.check();
+      expect(second).toEqual(expect.objectContaining({ currentVersion: '1.5.0', newVersion: '2.0.0', requirement: 'required' }));
+    });
+
+    test('没有设置 initialVersion 时应该以第一次获取到的版本作为运行的版本', async () => {
+      const checker = new VersionChecker({ autoStart: false, compareStrategy: 'json' });
+      fetchMock
+        .mockResolvedValueOnce(response({ version: '1.0.0' }))
+        .mockResolvedValueOnce(response({ version: '1.5.0' }))
+        .mockResolvedValueOnce(response({ version: '2.0.0', minSupportedVersion: '1.2.0' }));
+
+      await checker.check();
+      await checker.check();
+      const info = await checker.check();
+      expect(info.requirement).toBe('required');
+    });
+
+    test('版本不变但最低支持版本提高时应该把未刷新的更新升级为强制更新', async () => {
+      const checker = new VersionChecker({ autoStart: false, compareStrategy: 'json', initialVersion: '1.0.0' });
+      const updateHandler = jest.fn();
+      const requiredHandler = jest.fn();
+      checker.on('update', updateHandler);
+      checker.on('update-required', requiredHandler);
+      fetchMock
+        .mockResolvedValueOnce(response({ version: '1.5.0', minSupportedVersion: '1.0.0' }))
+        .mockResolvedValueOnce(response({ version: '1.5.0', minSupportedVersion: '1.0.0' }))
+        .mockResolvedValue(response({ version: '1.5.0', minSupportedVersion: '1.2.0' }));
+
+      await checker.check();
+      const unchanged = await checker.check();
+      expect(unchanged.updateAvailable).toBe(false);
+      expect(requiredHandler).not.toHaveBeenCalled();
+
+      const raised = await checker.check();
+      expect(raised).toEqual(expect.objectContaining({
+        newVersion: '1.5.0',
+        updateAvailable: true,
+        requirement: 'required',
+        minSupportedVersion: '1.2.0'
+      }));
+      expect(updateHandler).toHaveBeenCalledTimes(2);
+      expect(requiredHandler).toHaveBeenCalledTimes(1);
+
+      // 同一版本只升级一次
+      await checker.check();
+      expect(requiredHandler).toHaveBeenCalledTimes(1);
+    });
+
+    test('应该识别响应头中的强制更新标记', async () => {
+      const checker = new VersionChecker({ autoStart: false, initialVersion: '"v1"' });
+      const requiredHandler = jest.fn();
+      checker.on('update-required', requiredHandler);
+      fetchMock.mockResolvedValue(response(null, { etag: '"v2"', 'x-update-mandatory': 'true' }));
+
+      const info = await checker.check();
+      expect(info.requirement).toBe('required');
+      expect(requiredHandler).toHaveBeenCalledTimes(1);
+    });
+
+    test('没有更新时不应该包含更新要求', async () => {
+      const checker = new VersionChecker({ autoStart: false, compareStrategy: 'json', initialVersion: '2.1.0' });
+      fetchMock.mockResolvedValue(response({ version: '2.1.0', mandatory: true }));
+
+      const info = await checker.check();
+      expect(info).not.toHaveProperty('requirement');
+    });
+
+    test('强制更新不应该被 acknowledge() 忽略', async () => {
+      const checker = new VersionChecker({ autoStart: false, compareStrategy: 'json', initialVersion: '1.0.0' });
+      checker.acknowledge('2.0.0');
+      const updateHandler = jest.fn();
+      const requiredHandler = jest.fn();
+      checker.on('update', updateHandler);
+      checker.on('update-required', requiredHandler);
+      fetchMock.mockResolvedValue(response({ version: '2.0.0', mandatory: true }));
+
+      const info = await checker.check();
+      expect(info.acknowledged).toBeUndefined();
+      expect(updateHandler).toHaveBeenCalledTimes(1);
+      expect(requiredHandler).toHaveBeenCalledTimes(1);
+    });
+  });
+});
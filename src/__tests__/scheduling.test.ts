@@ -0,0 +1,205 @@
+import { VersionChecker } from '../index';
+
+// 添加 Headers polyfill
+class HeadersPolyfill {
+  private headers: Map<string, string>;
+
+  constructor(init?: Record<string, string>) {
+    this.headers = new Map();
+    if (init) {
+      Object.entries(init).forEach(([key, value]) => {
+        this.headers.set(key.toLowerCase(), value);
+      });
+    }
+  }
+
+  get(name: string): string | null {
+    return this.headers.get(name.toLowerCase()) || null;
+  }
+}
+
+describe('自适应调度', () => {
+  let fetchMock: jest.Mock;
+  let checker: VersionChecker;
+  let fakeDocument: EventTarget & { visibilityState: DocumentVisibilityState };
+  let fakeWindow: EventTarget;
+  let fakeNavigator: { onLine: boolean };
+
+  const setVisibility = (state: DocumentVisibilityState) => {
+    fakeDocument.visibilityState = state;
+    fakeDocument.dispatchEvent(new Event('visibilitychange'));
+  };
+
+  const setOnline = (onLine: boolean) => {
+    fakeNavigator.onLine = onLine;
+    fakeWindow.dispatchEvent(new Event(onLine ? 'online' : 'offline'));
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    fakeDocument = Object.assign(new EventTarget(), { visibilityState: 'visible' as DocumentVisibilityState });
+    fakeWindow = new EventTarget();
+    fakeNavigator = { onLine: true };
+    Object.defineProperty(global, 'document', { value: fakeDocument, configurable: true });
+    Object.defineProperty(global, 'window', { value: fakeWindow, configurable: true });
+    Object.defineProperty(global, 'navigator', { value: fakeNavigator, configurable: true });
+
+    fetchMock = jest.fn(() => Promise.resolve({
+      ok: true,
+      status: 200,
+      statusText: 'OK',
+      headers: new HeadersPolyfill({ 'etag': 'W/"123"' })
+    }));
+    global.fetch = fetchMock;
+
+    checker = new VersionChecker({
+      autoStart: false,
+      checkInterval: 10000,
+      adaptiveScheduling: true,
+      resumeCheckDebounce: 500
+    });
+  });
+
+  afterEach(() => {
+    checker.stop();
+    jest.clearAllTimers();
+    jest.useRealTimers();
+    delete (global as any).document;
+    delete (global as any).window;
+    delete (global as any).navigator;
+    global.fetch = undefined as unknown as typeof fetch;
+  });
+
+  test('应该在页面隐藏时暂停定期检查', () => {
+    const pauseHandler = jest.fn();
+    checker.on('pause', pauseHandler);
+
+    checker.start();
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    setVisibility('hidden');
+    expect(pauseHandler).toHaveBeenCalledWith(expect.objectContaining({ payload: { reason: 'hidden' } }));
+
+    jest.advanceTimersByTime(30000);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  test('应该在暂停期间处于 paused 状态', async () => {
+    checker.start();
+    await jest.advanceTimersByTimeAsync(0);
+    expect(checker.status).toBe('running');
+
+    setVisibility('hidden');
+    expect(checker.status).toBe('paused');
+    setVisibility('visible');
+    expect(checker.status).toBe('running');
+  });
+
+  test('应该在启动时即处于隐藏状态则跳过首次检查', () => {
+    const pauseHandler = jest.fn();
+    checker.on('pause', pauseHandler);
+    fakeDocument.visibilityState = 'hidden';
+
+    checker.start();
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(pauseHandler).toHaveBeenCalledTimes(1);
+    expect(checker.getTimerState()).toBe(true);
+  });
+
+  test('应该在页面重新可见时恢复并立即检查', async () => {
+    const resumeHandler = jest.fn();
+    checker.on('resume', resumeHandler);
+
+    checker.start();
+    setVisibility('hidden');
+    setVisibility('visible');
+    expect(resumeHandler).toHaveBeenCalledWith(expect.objectContaining({ payload: { reason: 'visible' } }));
+
+    await jest.advanceTimersByTimeAsync(500);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+
+    // 恢复后重新计时,下一次定期检查在完整间隔后发生
+    await jest.advanceTimersByTimeAsync(9999);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    await jest.advanceTimersByTimeAsync(1);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  test('应该在离线时暂停并在网络恢复时检查', async () => {
+    const pauseHandler = jest.fn();
+    const resumeHandler = jest.fn();
+    checker.on('pause', pauseHandler);
+    checker.on('resume', resumeHandler);
+
+    checker.start();
+    setOnline(false);
+    expect(pauseHandler).toHaveBeenCalledWith(expect.objectContaining({ payload: { reason: 'offline' } }));
+
+    await jest.advanceTimersByTimeAsync(20000);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    setOnline(true);
+    expect(resumeHandler).toHaveBeenCalledWith(expect.objectContaining({ payload: { reason: 'online' } }));
+    await jest.advanceTimersByTimeAsync(500);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  test('应该在隐藏且离线时保持暂停直到两者都恢复', () => {
+    const pauseHandler = jest.fn();
+    const resumeHandler = jest.fn();
+    checker.on('pause', pauseHandler);
+    checker.on('resume', resumeHandler);
+
+    checker.start();
+    setVisibility('hidden');
+    setOnline(false);
+    setVisibility('visible');
+    expect(pauseHandler).toHaveBeenCalledTimes(1);
+    expect(resumeHandler).not.toHaveBeenCalled();
+
+    setOnline(true);
+    expect(resumeHandler).toHaveBeenCalledTimes(1);
+  });
+
+  test('应该合并短时间内的多个恢复事件', async () => {
+    checker.start();
+    setVisibility('hidden');
+    setVisibility('visible');
+    fakeWindow.dispatchEvent(new Event('focus'));
+    await jest.advanceTimersByTimeAsync(200);
+    fakeWindow.dispatchEvent(new Event('focus'));
+
+    await jest.advanceTimersByTimeAsync(500);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  test('应该在窗口获得焦点时检查', async () => {
+    checker.start();
+    fakeWindow.dispatchEvent(new Event('focus'));
+    await jest.advanceTimersByTimeAsync(500);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  test('应该在停止后移除页面事件监听器', () => {
+    const pauseHandler = jest.fn();
+    checker.on('pause', pauseHandler);
+
+    checker.start();
+    checker.stop();
+    setVisibility('hidden');
+    fakeWindow.dispatchEvent(new Event('focus'));
+    jest.advanceTimersByTime(1000);
+
+    expect(pauseHandler).not.toHaveBeenCalled();
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  test('应该在未开启自适应调度时忽略页面状态', async () => {
+    const fixedChecker = new VersionChecker({ autoStart: false, checkInterval: 10000 });
+    fixedChecker.start();
+    setVisibility('hidden');
+    await jest.advanceTimersByTimeAsync(10000);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    fixedChecker.stop();
+  });
+});
@@ -0,0 +1,71 @@
+import { parseSemver, compareSemver, getUpdateSeverity } from '../semver';
+
+describe('语义化版本工具', () => {
+  const parse = (version: string) => {
+    const parsed = parseSemver(version);
+    if (!parsed) {
+      throw new Error(`无法解析版本: ${version}`);
+    }
+    return parsed;
+  };
+
+  describe('parseSemver', () => {
+    test('应该解析标准版本号', () => {
+      expect(parseSemver('2.4.1')).toEqual({ major: 2, minor: 4, patch: 1, prerelease: [] });
+    });
+
+    test('应该解析带前缀、预发布标识和构建元数据的版本号', () => {
+      expect(parseSemver('v1.0.0-beta.2+sha.abc')).toEqual({
+        major: 1,
+        minor: 0,
+        patch: 0,
+        prerelease: ['beta', '2']
+      });
+    });
+
+    test('应该去除 ETag 风格的引号', () => {
+      expect(parseSemver('"3.1.0"')).toEqual({ major: 3, minor: 1, patch: 0, prerelease: [] });
+    });
+
+    test('应该对非语义化版本返回 null', () => {
+      expect(parseSemver('W/"123"')).toBeNull();
+      expect(parseSemver('1.0')).toBeNull();
+      expect(parseSemver('01.0.0')).toBeNull();
+    });
+  });
+
+  describe('compareSemver', () => {
+    test('应该按主、次、修订号比较', () => {
+      expect(compareSemver(parse('2.0.0'), parse('1.9.9'))).toBeGreaterThan(0);
+      expect(compareSemver(parse('1.2.0'), parse('1.10.0'))).toBeLessThan(0);
+      expect(compareSemver(parse('1.0.1'), parse('1.0.1+build'))).toBe(0);
+    });
+
+    test('应该按规范比较预发布标识', () => {
+      const ordered = [
+        '1.0.0-alpha',
+        '1.0.0-alpha.1',
+        '1.0.0-alpha.beta',
+        '1.0.0-beta',
+        '1.0.0-beta.2',
+        '1.0.0-beta.11',
+        '1.0.0-rc.1',
+        '1.0.0'
+      ];
+      for (let i = 1; i < ordered.length; i++) {
+        expect(compareSemver(parse(ordered[i]), parse(ordered[i - 1]))).toBeGreaterThan(0);
+        expect(compareSemver(parse(ordered[i - 1]), parse(ordered[i]))).toBeLessThan(0);
+      }
+    });
+  });
+
+  describe('getUpdateSeverity', () => {
+    test('应该返回最高的变化级别', () => {
+      expect(getUpdateSeverity(parse('1.2.3'), parse('2.0.0'))).toBe('major');
+      expect(getUpdateSeverity(parse('1.2.3'), parse('1.3.0'))).toBe('minor');
+      expect(getUpdateSeverity(parse('1.2.3'), parse('1.2.4'))).toBe('patch');
+      expect(getUpdateSeverity(parse('1.2.3-rc.1'), parse('1.2.3'))).toBe('prerelease');
+      expect(getUpdateSeverity(parse('1.2.3'), parse('1.2.3'))).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,240 @@
+/**
+ * @jest-environment jsdom
+ */
+import { VersionChecker } from '../index';
+import { activateWaitingWorker } from '../service-worker';
+import { VersionCheckerOptions } from '../types';
+
+class FakeWorker extends EventTarget {
+  state: ServiceWorkerState = 'installing';
+  postMessage = jest.fn();
+
+  setState(state: ServiceWorkerState) {
+    this.state = state;
+    this.dispatchEvent(new Event('statechange'));
+  }
+}
+
+const asWorker = (worker: FakeWorker) => worker as unknown as ServiceWorker;
+
+/** 调用 update() 后出现一个正在安装的 worker 的注册 */
+const createRegistration = (worker: FakeWorker | null = new FakeWorker()) => {
+  const registration = {
+    installing: null as ServiceWorker | null,
+    waiting: null as ServiceWorker | null,
+    update: jest.fn(async () => {
+      registration.installing = worker ? asWorker(worker) : null;
+    })
+  };
+  return registration;
+};
+
+const asRegistration = (registration: ReturnType<typeof createRegistration>) =>
+  registration as unknown as ServiceWorkerRegistration;
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('Service Worker 集成', () => {
+  let checker: VersionChecker;
+  let container: EventTarget & { getRegistration: jest.Mock };
+
+  const createChecker = (options: VersionCheckerOptions) => {
+    checker = new VersionChecker({ autoStart: false, initialVersion: 'v1', ...options });
+    return checker;
+  };
+
+  beforeEach(() => {
+    global.fetch = jest.fn(() => Promise.resolve({
+      ok: true,
+      status: 200,
+      statusText: 'OK',
+      headers: { get: (name: string) => (name === 'etag' ? 'v2' : null) }
+    })) as unknown as typeof fetch;
+    container = Object.assign(new EventTarget(), { getRegistration: jest.fn(async () => undefined) });
+    Object.defineProperty(navigator, 'serviceWorker', { configurable: true, value: container });
+  });
+
+  afterEach(() => {
+    checker.destroy();
+    delete (navigator as any).serviceWorker;
+    global.fetch = undefined as unknown as typeof fetch;
+  });
+
+  test('发现更新后应该在新的 worker 安装完成后才触发 update 事件', async () => {
+    const worker = new FakeWorker();
+    const registration = createRegistration(worker);
+    const updateHandler = jest.fn();
+    createChecker({ serviceWorker: asRegistration(registration) }).on('update', updateHandler);
+
+    const pending = checker.check();
+    await flush();
+    expect(registration.update).toHaveBeenCalledTimes(1);
+    expect(updateHandler).not.toHaveBeenCalled();
+
+    worker.setState('installed');
+    const info = await pending;
+    expect(info.serviceWorkerReady).toBe(true);
+    expect(updateHandler).toHaveBeenCalledWith(expect.objectContaining({
+      payload: expect.objectContaining({ newVersion: 'v2', serviceWorkerReady: true })
+    }));
+  });
+
+  test('已有等待激活的 worker 时应该直接视为就绪', async () => {
+    const registration = createRegistration(null);
+    registration.waiting = asWorker(new FakeWorker());
+    createChecker({ serviceWorker: asRegistration(registration) });
+
+    const info = await checker.check();
+    expect(info.serviceWorkerReady).toBe(true);
+  });
+
+  test('Service Worker 脚本没有变化时应该照常触发 update 事件', async () => {
+    const updateHandler = jest.fn();
+    createChecker({ serviceWorker: asRegistration(createRegistration(null)) }).on('update', updateHandler);
+
+    const info = await checker.check();
+    expect(info.serviceWorkerReady).toBe(false);
+    expect(updateHandler).toHaveBeenCalledTimes(1);
+  });
+
+  test('新的 worker 安装失败时应该触发 error 事件并照常触发 update 事件', async () => {
+    const worker = new FakeWorker();
+    const errorHandler = jest.fn();
+    const updateHandler = jest.fn();
+    createChecker({ serviceWorker: asRegistration(createRegistration(worker)) });
+    checker.on('error', errorHandler);
+    checker.on('update', updateHandler);
+
+    const pending = checker.check();
+    await flush();
+    worker.setState('redundant');
+
+    const info = await pending;
+    expect(info.serviceWorkerReady).toBe(false);
+    expect(errorHandler).toHaveBeenCalledWith(expect.objectContaining({
+      payload: new Error('Service worker installation failed')
+    }));
+    expect(updateHandler).toHaveBeenCalledTimes(1);
+  });
+
+  test('安装超时时应该照常触发 update 事件,安装完成后 reload() 仍会激活新的 worker', async () => {
+    jest.useFakeTimers();
+    const worker = new FakeWorker();
+    const updateHandler = jest.fn();
+    createChecker({ serviceWorker: asRegistration(createRegistration(worker)), serviceWorkerTimeout: 5000 })
+      .on('update', updateHandler);
+
+    const pending = checker.check();
+    await jest.advanceTimersByTimeAsync(5000);
+    const info = await pending;
+    expect(info.serviceWorkerReady).toBe(false);
+    expect(updateHandler).toHaveBeenCalledTimes(1);
+    expect(checker.status).toBe('idle');
+
+    worker.setState('installed');
+    await jest.advanceTimersByTimeAsync(0);
+    checker.reload();
+    expect(worker.postMessage).toHaveBeenCalledWith({ type: 'SKIP_WAITING' });
+    jest.clearAllTimers();
+    jest.useRealTimers();
+  });
+
+  test('stop() 应该中断等待新的 worker 安装', async () => {
+    const updateHandler = jest.fn();
+    createChecker({ serviceWorker: asRegistration(createRegistration(new FakeWorker())) }).on('update', updateHandler);
+
+    const pending = checker.check();
+    await flush();
+    checker.stop();
+
+    const info = await pending;
+    expect(info.serviceWorkerReady).toBe(false);
+    expect(updateHandler).toHaveBeenCalledTimes(1);
+  });
+
+  test('serviceWorker 为 true 时应该使用当前页面的注册', async () => {
+    const registration = createRegistration(null);
+    registration.waiting = asWorker(new FakeWorker());
+    container.getRegistration.mockResolvedValue(registration);
+    createChecker({ serviceWorker: true });
+
+    const info = await checker.check();
+    expect(container.getRegistration).toHaveBeenCalled();
+    expect(registration.update).toHaveBeenCalled();
+    expect(info.serviceWorkerReady).toBe(true);
+  });
+
+  test('页面未注册 Service Worker 时应该按未开启处理', async () => {
+    createChecker({ serviceWorker: true });
+
+    const info = await checker.check();
+    expect(info.updateAvailable).toBe(true);
+    expect(info).not.toHaveProperty('serviceWorkerReady');
+  });
+
+  test('已确认的版本不应该检查 Service Worker 更新', async () => {
+    const registration = createRegistration();
+    createChecker({ serviceWorker: asRegistration(registration) });
+    checker.acknowledge('v2');
+
+    await checker.check();
+    expect(registration.update).not.toHaveBeenCalled();
+  });
+
+  test('reload() 应该通知等待中的 worker 激活', async () => {
+    jest.useFakeTimers();
+    const worker = new FakeWorker();
+    const registration = createRegistration(null);
+    registration.waiting = asWorker(worker);
+    createChecker({
+      serviceWorker: asRegistration(registration),
+      serviceWorkerMessage: 'skip-waiting'
+    });
+
+    await checker.check();
+    checker.reload();
+    expect(worker.postMessage).toHaveBeenCalledWith('skip-waiting');
+    jest.clearAllTimers();
+    jest.useRealTimers();
+  });
+
+  test('activateWaitingWorker 应该在 controllerchange 后刷新一次', () => {
+    const worker = new FakeWorker();
+    const reload = jest.fn();
+
+    activateWaitingWorker(asWorker(worker), { type: 'SKIP_WAITING' }, reload);
+    expect(worker.postMessage).toHaveBeenCalledWith({ type: 'SKIP_WAITING' });
+    expect(reload).not.toHaveBeenCalled();
+
+    container.dispatchEvent(new Event('controllerchange'));
+    container.dispatchEvent(new Event('controllerchange'));
+    expect(reload).toHaveBeenCalledTimes(1);
+  });
+
+  test('activateWaitingWorker 等待接管超时后应该直接刷新', () => {
+    jest.useFakeTimers();
+    const worker = new FakeWorker();
+    const reload = jest.fn();
+
+    activateWaitingWorker(asWorker(worker), { type: 'SKIP_WAITING' }, reload, 5000);
+    jest.advanceTimersByTime(4999);
+    expect(reload).not.toHaveBeenCalled();
+    jest.advanceTimersByTime(1);
+    expect(reload).toHaveBeenCalledTimes(1);
+
+    container.dispatchEvent(new Event('controllerchange'));
+    expect(reload).toHaveBeenCalledTimes(1);
+    jest.useRealTimers();
+  });
+
+  test('activateWaitingWorker 在 worker 已激活或已失效时应该直接刷新', () => {
+    const reload = jest.fn();
+    ['activated', 'redundant'].forEach(state => {
+      const worker = new FakeWorker();
+      worker.state = state as ServiceWorkerState;
+      activateWaitingWorker(asWorker(worker), { type: 'SKIP_WAITING' }, reload, 5000);
+      expect(worker.postMessage).not.toHaveBeenCalled();
+    });
+    expect(reload).toHaveBeenCalledTimes(2);
+  });
+});
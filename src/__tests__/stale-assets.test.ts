@@ -0,0 +1,89 @@
+/**
+ * @jest-environment jsdom
+ */
+import { VersionChecker } from '../index';
+import { isStaleAssetError } from '../stale-assets';
+
+const dispatchRejection = (reason: unknown) => {
+  window.dispatchEvent(Object.assign(new Event('unhandledrejection'), { reason }));
+};
+
+describe('isStaleAssetError', () => {
+  test('应该识别常见的代码块加载失败', () => {
+    const chunkLoadError = Object.assign(new Error('Loading chunk 42 failed.'), { name: 'ChunkLoadError' });
+
+    expect(isStaleAssetError(chunkLoadError)).toBe(true);
+    expect(isStaleAssetError(new Error('Loading CSS chunk about-page failed.'))).toBe(true);
+    expect(isStaleAssetError(new TypeError('Failed to fetch dynamically imported module: /assets/a.js'))).toBe(true);
+    expect(isStaleAssetError(new TypeError('error loading dynamically imported module'))).toBe(true);
+    expect(isStaleAssetError('Importing a module script failed.')).toBe(true);
+    expect(isStaleAssetError(new TypeError('Failed to fetch'))).toBe(false);
+    expect(isStaleAssetError(undefined)).toBe(false);
+  });
+});
+
+describe('过期资源检测', () => {
+  let fetchMock: jest.Mock;
+  let checker: VersionChecker;
+
+  beforeEach(() => {
+    fetchMock = jest.fn(() => Promise.resolve({
+      ok: true,
+      status: 200,
+      statusText: 'OK',
+      headers: { get: (name: string) => (name === 'etag' ? 'v2' : null) }
+    }));
+    global.fetch = fetchMock;
+  });
+
+  afterEach(() => {
+    checker.destroy();
+    global.fetch = undefined as unknown as typeof fetch;
+  });
+
+  test('未处理的代码块加载失败应该触发 stale-assets 事件并立即检查', async () => {
+    checker = new VersionChecker({ initialVersion: 'v1', detectStaleAssets: true, checkInterval: 600000 });
+    await checker.check();
+    fetchMock.mockClear();
+
+    const staleHandler = jest.fn();
+    checker.on('stale-assets', staleHandler);
+
+    const error = new TypeError('Failed to fetch dynamically imported module: /assets/page-3f2a.js');
+    dispatchRejection(error);
+
+    expect(staleHandler).toHaveBeenCalledWith(expect.objectContaining({
+      payload: { error, source: 'unhandledrejection' }
+    }));
+    // 复用 stale-assets 触发的检查
+    await checker.check();
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  test('应该识别 error 事件中的代码块加载失败', () => {
+    checker = new VersionChecker({ detectStaleAssets: true, checkInterval: 600000 });
+    const staleHandler = jest.fn();
+    checker.on('stale-assets', staleHandler);
+
+    window.dispatchEvent(new ErrorEvent('error', { message: 'Uncaught ChunkLoadError: Loading chunk 7 failed.' }));
+    window.dispatchEvent(new ErrorEvent('error', { message: 'Uncaught ReferenceError: foo is not defined' }));
+
+    expect(staleHandler).toHaveBeenCalledTimes(1);
+    expect(staleHandler.mock.calls[0][0].payload.source).toBe('error');
+  });
+
+  test('未开启或停止后不应该响应代码块加载失败', () => {
+    checker = new VersionChecker({ checkInterval: 600000 });
+    const staleHandler = jest.fn();
+    checker.on('stale-assets', staleHandler);
+    dispatchRejection(new TypeError('Failed to fetch dynamically imported module'));
+    checker.destroy();
+
+    checker = new VersionChecker({ detectStaleAssets: true, checkInterval: 600000 });
+    checker.on('stale-assets', staleHandler);
+    checker.stop();
+    dispatchRejection(new TypeError('Failed to fetch dynamically imported module'));
+
+    expect(staleHandler).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,164 @@
+import { MemoryStorage, createStorage, loadVersionState, saveVersionState } from '../storage';
+import { VersionChecker } from '../index';
+
+describe('版本状态存储', () => {
+  describe('存储适配器', () => {
+    afterEach(() => {
+      delete (global as any).localStorage;
+      delete (global as any).sessionStorage;
+    });
+
+    test('应该读写内存存储', () => {
+      const storage = new MemoryStorage();
+      expect(storage.getItem('key')).toBeNull();
+      storage.setItem('key', 'value');
+      expect(storage.getItem('key')).toBe('value');
+      storage.removeItem('key');
+      expect(storage.getItem('key')).toBeNull();
+    });
+
+    test('应该按配置选择浏览器存储', () => {
+      const local = new MemoryStorage();
+      const session = new MemoryStorage();
+      (global as any).localStorage = local;
+      (global as any).sessionStorage = session;
+
+      expect(createStorage('local')).toBe(local);
+      expect(createStorage('session')).toBe(session);
+      expect(createStorage('memory')).toBeInstanceOf(MemoryStorage);
+    });
+
+    test('应该在浏览器存储不可用时回退到内存存储', () => {
+      expect(createStorage('local')).toBeInstanceOf(MemoryStorage);
+      Object.defineProperty(global, 'sessionStorage', {
+        configurable: true,
+        get: () => {
+          throw new Error('SecurityError');
+        }
+      });
+      expect(createStorage('session')).toBeInstanceOf(MemoryStorage);
+    });
+
+    test('应该直接使用自定义适配器', () => {
+      const custom = new MemoryStorage();
+      expect(createStorage(custom)).toBe(custom);
+    });
+
+    test('应该容忍损坏的存储数据', () => {
+      const storage = new MemoryStorage();
+      storage.setItem('key', '{broken');
+      expect(loadVersionState(storage, 'key')).toEqual({ versionTag: null, acknowledged: [] });
+
+      storage.setItem('key', JSON.stringify({ versionTag: 1, acknowledged: ['a', 2] }));
+      expect(loadVersionState(storage, 'key')).toEqual({ versionTag: null, acknowledged: ['a'] });
+    });
+
+    test('应该只保留最近的已确认版本', () => {
+      const storage = new MemoryStorage();
+      const acknowledged = Array.from({ length: 25 }, (_, i) => `v${i}`);
+      saveVersionState(storage, 'key', { versionTag: 'v24', acknowledged });
+      expect(loadVersionState(storage, 'key').acknowledged).toEqual(acknowledged.slice(5));
+    });
+
+    test('应该忽略写入失败', () => {
+      const storage = new MemoryStorage();
+      storage.setItem = () => {
+        throw new Error('QuotaExceededError');
+      };
+      expect(() => saveVersionState(storage, 'key', { versionTag: 'v1', acknowledged: [] })).not.toThrow();
+    });
+  });
+
+  describe('VersionChecker 持久化', () => {
+    let fetchMock: jest.Mock;
+    let storage: MemoryStorage;
+
+    const respondWith = (etag: string) => {
+      fetchMock.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        statusText: 'OK',
+        headers: { get: (name: string) => (name === 'etag' ? etag : null) }
+      });
+    };
+
+    const createChecker = (options = {}) => new VersionChecker({
+      autoStart: false,
+      versionUrl: '/version',
+      storage,
+      ...options
+    });
+
+    beforeEach(() => {
+      fetchMock = jest.fn();
+      global.fetch = fetchMock;
+      storage = new MemoryStorage();
+    });
+
+    afterEach(() => {
+      global.fetch = undefined as unknown as typeof fetch;
+    });
+
+    test('应该在刷新后使用持久化的基线版本', async () => {
+      respondWith('v1');
+      await createChecker().check();
+      expect(JSON.parse(storage.getItem('version-sentinel:/version') as string).versionTag).toBe('v1');
+
+      // 模拟刷新后新建的检查器
+      respondWith('v2');
+      const info = await createChecker().check();
+      expect(info.currentVersion).toBe('v1');
+      expect(info.updateAvailable).toBe(true);
+    });
+
+    test('应该优先使用 initialVersion 作为基线', async () => {
+      saveVersionState(storage, 'version-sentinel:/version', { versionTag: 'v0', acknowledged: [] });
+      respondWith('v2');
+
+      const checker = createChecker({ initialVersion: 'v1' });
+      const updateHandler = jest.fn();
+      checker.on('update', updateHandler);
+      const info = await checker.check();
+
+      expect(info.currentVersion).toBe('v1');
+      expect(updateHandler).toHaveBeenCalledTimes(1);
+    });
+
+    test('应该不再提示已确认的版本', async () => {
+      const first = createChecker({ initialVersion: 'v1' });
+      respondWith('v2');
+      await first.check();
+      first.acknowledge();
+
+      // 另一个仍在运行 v1 的标签页
+      const second = createChecker({ initialVersion: 'v1' });
+      const updateHandler = jest.fn();
+      second.on('update', updateHandler);
+      respondWith('v2');
+      const info = await second.check();
+
+      expect(info.updateAvailable).toBe(true);
+      expect(info.acknowledged).toBe(true);
+      expect(updateHandler).not.toHaveBeenCalled();
+
+      respondWith('v3');
+      await second.check();
+      expect(updateHandler).toHaveBeenCalledTimes(1);
+    });
+
+    test('应该支持确认指定版本并忽略重复确认', () => {
+      const checker = createChecker();
+      checker.acknowledge();
+      checker.acknowledge('v5');
+      checker.acknowledge('v5');
+      expect(loadVersionState(storage, 'version-sentinel:/version').acknowledged).toEqual(['v5']);
+    });
+
+    test('应该按 storageKey 和 versionUrl 隔离存储', async () => {
+      respondWith('v1');
+      await createChecker({ storageKey: 'app' }).check();
+      expect(storage.getItem('app:/version')).not.toBeNull();
+      expect(storage.getItem('version-sentinel:/version')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,342 @@
+import { VersionChecker, EventSourceTransport, WebSocketTransport, TransportError } from '../index';
+import { createPushTransport } from '../transport';
+import { VersionTransport, VersionTransportHandlers } from '../types';
+
+// 可手动控制的推送传输
+class ManualTransport implements VersionTransport {
+  handlers: VersionTransportHandlers | null = null;
+  connect = jest.fn((handlers: VersionTransportHandlers) => {
+    this.handlers = handlers;
+  });
+  close = jest.fn(() => {
+    this.handlers = null;
+  });
+}
+
+class FakeEventSource extends EventTarget {
+  static instances: FakeEventSource[] = [];
+  onopen: (() => void) | null = null;
+  onerror: ((event: Event) => void) | null = null;
+  closed = false;
+
+  constructor(public url: string) {
+    super();
+    FakeEventSource.instances.push(this);
+  }
+
+  close(): void {
+    this.closed = true;
+  }
+}
+
+class FakeWebSocket {
+  static instances: FakeWebSocket[] = [];
+  onopen: (() => void) | null = null;
+  onmessage: ((event: { data: unknown }) => void) | null = null;
+  onclose: ((event: unknown) => void) | null = null;
+  closed = false;
+
+  constructor(public url: string) {
+    FakeWebSocket.instances.push(this);
+  }
+
+  close(): void {
+    this.closed = true;
+  }
+}
+
+describe('推送传输', () => {
+  describe('内置传输', () => {
+    beforeEach(() => {
+      FakeEventSource.instances = [];
+      FakeWebSocket.instances = [];
+      (global as any).EventSource = FakeEventSource;
+      (global as any).WebSocket = FakeWebSocket;
+    });
+
+    afterEach(() => {
+      delete (global as any).EventSource;
+      delete (global as any).WebSocket;
+      delete (global as any).location;
+    });
+
+    const createHandlers = () => ({
+      onOpen: jest.fn(),
+      onMessage: jest.fn(),
+      onClose: jest.fn()
+    });
+
+    test('EventSourceTransport 应该转发指定事件的数据', () => {
+      const handlers = createHandlers();
+      const transport = new EventSourceTransport('/stream', 'release');
+      transport.connect(handlers);
+      const [source] = FakeEventSource.instances;
+
+      source.onopen?.();
+      source.dispatchEvent(Object.assign(new Event('release'), { data: '2.0.0' }));
+      source.dispatchEvent(Object.assign(new Event('message'), { data: 'ignored' }));
+
+      expect(source.url).toBe('/stream');
+      expect(handlers.onOpen).toHaveBeenCalled();
+      expect(handlers.onMessage).toHaveBeenCalledTimes(1);
+      expect(handlers.onMessage).toHaveBeenCalledWith('2.0.0');
+    });
+
+    test('EventSourceTransport 应该在出错时关闭连接并通知', () => {
+      const handlers = createHandlers();
+      const transport = new EventSourceTransport('/stream');
+      transport.connect(handlers);
+      const [source] = FakeEventSource.instances;
+
+      const error = new Event('error');
+      source.onerror?.(error);
+      expect(source.closed).toBe(true);
+      expect(handlers.onClose).toHaveBeenCalledWith(error);
+    });
+
+    test('WebSocketTransport 应该转发消息并在关闭时通知', () => {
+      const handlers = createHandlers();
+      const transport = new WebSocketTransport('wss://example.com/releases');
+      transport.connect(handlers);
+      const [socket] = FakeWebSocket.instances;
+
+      socket.onopen?.();
+      socket.onmessage?.({ data: '{"version":"2.0.0"}' });
+      socket.onclose?.({ code: 1006 });
+
+      expect(handlers.onOpen).toHaveBeenCalled();
+      expect(handlers.onMessage).toHaveBeenCalledWith('{"version":"2.0.0"}');
+      expect(handlers.onClose).toHaveBeenCalledWith({ code: 1006 });
+    });
+
+    test('WebSocketTransport 主动关闭时不应通知断开', () => {
+      const handlers = createHandlers();
+      const transport = new WebSocketTransport('wss://example.com/releases');
+      transport.connect(handlers);
+      const [socket] = FakeWebSocket.instances;
+
+      transport.close();
+      expect(socket.closed).toBe(true);
+      expect(socket.onclose).toBeNull();
+    });
+
+    test('createPushTransport 应该按配置创建传输', () => {
+      (global as any).location = { href: 'https://example.com/app/' };
+      expect(createPushTransport('polling', '/version')).toBeNull();
+      expect(createPushTransport('sse', '/version')).toBeInstanceOf(EventSourceTransport);
+
+      const custom = new ManualTransport();
+      expect(createPushTransport(custom, '/version')).toBe(custom);
+
+      createPushTransport('websocket', '/ws')?.connect(createHandlers());
+      expect(FakeWebSocket.instances[0].url).toBe('wss://example.com/ws');
+    });
+  });
+
+  describe('VersionChecker 推送模式', () => {
+    let fetchMock: jest.Mock;
+    let transport: ManualTransport;
+    let checker: VersionChecker;
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+      fetchMock = jest.fn(() => Promise.resolve({
+        ok: true,
+        status: 200,
+        statusText: 'OK',
+        headers: { get: () => null },
+        json: () => Promise.resolve({ version: '1.0.0' })
+      }));
+      global.fetch = fetchMock;
+      transport = new ManualTransport();
+      checker = new VersionChecker({
+        autoStart: false,
+        checkInterval: 10000,
+        compareStrategy: 'json',
+        transport,
+        pushReconnectTimes: 2,
+        pushReconnectInterval: 1000
+      });
+    });
+
+    afterEach(() => {
+      checker.stop();
+      jest.clearAllTimers();
+      jest.useRealTimers();
+      global.fetch = undefined as unknown as typeof fetch;
+    });
+
+    test('应该把推送的版本消息走相同的比较和事件流程', async () => {
+      const updateHandler = jest.fn();
+      checker.on('update', updateHandler);
+      checker.start();
+      await jest.advanceTimersByTimeAsync(0);
+
+      transport.handlers?.onOpen();
+      transport.handlers?.onMessage('{"version":"1.1.0","buildTime":2}');
+      expect(updateHandler).toHaveBeenCalledWith(expect.objectContaining({
+        payload: expect.objectContaining({
+          currentVersion: '1.0.0',
+          newVersion: '1.1.0',
+          manifest: { version: '1.1.0', buildTime: 2 }
+        })
+      }));
+
+      transport.handlers?.onMessage('1.2.0');
+      expect(updateHandler).toHaveBeenLastCalledWith(expect.objectContaining({
+        payload: expect.objectContaining({ newVersion: '1.2.0' })
+      }));
+
+      transport.handlers?.onMessage('"1.3.0"');
+      expect(updateHandler).toHaveBeenCalledTimes(3);
+
+      transport.handlers?.onMessage('{"other":true}');
+      transport.handlers?.onMessage('  ');
+      expect(updateHandler).toHaveBeenCalledTimes(3);
+    });
+
+    test('比较推送的版本出错时应该触发 error 事件', async () => {
+      const error = new Error('Comparator error');
+      checker = new VersionChecker({
+        autoStart: false,
+        compareStrategy: 'json',
+        transport,
+        versionComparator: () => {
+          throw error;
+        }
+      });
+      const errorHandler = jest.fn();
+      checker.on('error', errorHandler);
+      checker.start();
+      await jest.advanceTimersByTimeAsync(0);
+
+      transport.handlers?.onMessage('1.1.0');
+      await jest.advanceTimersByTimeAsync(0);
+      expect(errorHandler).toHaveBeenCalledWith(expect.objectContaining({ payload: error }));
+    });
+
+    test('推送的版本不需要达到确认阈值', async () => {
+      checker = new VersionChecker({
+        autoStart: false,
+        checkInterval: 10000,
+        compareStrategy: 'json',
+        transport,
+        confirmationThreshold: 2
+      });
+      const updateHandler = jest.fn();
+      checker.on('update', updateHandler);
+      checker.start();
+      await jest.advanceTimersByTimeAsync(0);
+
+      transport.handlers?.onOpen();
+      transport.handlers?.onMessage('1.1.0');
+      await jest.advanceTimersByTimeAsync(0);
+      expect(updateHandler).toHaveBeenCalledTimes(1);
+      expect(updateHandler).toHaveBeenCalledWith(expect.objectContaining({
+        payload: expect.objectContaining({ newVersion: '1.1.0', updateAvailable: true })
+      }));
+      expect(updateHandler.mock.calls[0][0].payload).not.toHaveProperty('unconfirmed');
+    });
+
+    test('环境不支持推送时应该回退到轮询', async () => {
+      checker = new VersionChecker({
+        autoStart: false,
+        checkInterval: 10000,
+        compareStrategy: 'json',
+        transport: 'sse',
+        pushReconnectTimes: 0
+      });
+      const errorHandler = jest.fn();
+      checker.on('error', errorHandler);
+
+      expect(() => checker.start()).not.toThrow();
+      expect(checker.getTimerState()).toBe(true);
+      expect(errorHandler).toHaveBeenCalledWith(expect.objectContaining({
+        payload: expect.any(TransportError)
+      }));
+      expect(errorHandler.mock.calls[0][0].payload.reason).toBeInstanceOf(ReferenceError);
+
+      await jest.advanceTimersByTimeAsync(10000);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    test('应该在推送连接正常时跳过轮询,断开时回退到轮询', async () => {
+      const connectHandler = jest.fn();
+      checker.on('connect', connectHandler);
+      checker.start();
+      await jest.advanceTimersByTimeAsync(0);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+
+      transport.handlers?.onOpen();
+      expect(connectHandler).toHaveBeenCalledTimes(1);
+      await jest.advanceTimersByTimeAsync(20000);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+
+      transport.handlers?.onClose(new Error('lost'));
+      await jest.advanceTimersByTimeAsync(10000);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    test('应该按指数退避重连并在超过次数后放弃', async () => {
+      const disconnectHandler = jest.fn();
+      const errorHandler = jest.fn();
+      checker.on('disconnect', disconnectHandler);
+      checker.on('error', errorHandler);
+      checker.start();
+      await jest.advanceTimersByTimeAsync(0);
+      expect(transport.connect).toHaveBeenCalledTimes(1);
+
+      transport.handlers?.onClose('first');
+      expect(disconnectHandler).toHaveBeenLastCalledWith(expect.objectContaining({
+        payload: { reason: 'first', willReconnect: true, attempt: 1, delay: 1000 }
+      }));
+      await jest.advanceTimersByTimeAsync(1000);
+      expect(transport.connect).toHaveBeenCalledTimes(2);
+
+      transport.handlers?.onClose('second');
+      expect(disconnectHandler.mock.calls[1][0].payload.delay).toBe(2000);
+      await jest.advanceTimersByTimeAsync(2000);
+      expect(transport.connect).toHaveBeenCalledTimes(3);
+
+      transport.handlers?.onClose('third');
+      expect(disconnectHandler).toHaveBeenLastCalledWith(expect.objectContaining({
+        payload: { reason: 'third', willReconnect: false }
+      }));
+      expect(errorHandler).toHaveBeenCalledWith(expect.objectContaining({
+        payload: expect.any(TransportError)
+      }));
+      await jest.advanceTimersByTimeAsync(60000);
+      expect(transport.connect).toHaveBeenCalledTimes(3);
+    });
+
+    test('应该在连接成功后重置重连次数', async () => {
+      const disconnectHandler = jest.fn();
+      checker.on('disconnect', disconnectHandler);
+      checker.start();
+      await jest.advanceTimersByTimeAsync(0);
+
+      transport.handlers?.onClose('first');
+      await jest.advanceTimersByTimeAsync(1000);
+      transport.handlers?.onOpen();
+      transport.handlers?.onClose('second');
+
+      expect(disconnectHandler).toHaveBeenLastCalledWith(expect.objectContaining({
+        payload: expect.objectContaining({ attempt: 1, delay: 1000 })
+      }));
+    });
+
+    test('应该在停止时关闭连接并取消重连', async () => {
+      checker.start();
+      await jest.advanceTimersByTimeAsync(0);
+      transport.handlers?.onClose('lost');
+
+      checker.stop();
+      await jest.advanceTimersByTimeAsync(10000);
+      expect(transport.connect).toHaveBeenCalledTimes(1);
+
+      checker.start();
+      checker.stop();
+      expect(transport.close).toHaveBeenCalled();
+    });
+  });
+});
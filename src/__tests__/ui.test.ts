@@ -0,0 +1,117 @@
+/**
+ * @jest-environment jsdom
+ */
+import { VersionChecker } from '../index';
+import { attachUpdateNotifier, UpdateNotifier } from '../ui';
+import { VersionInfo } from '../types';
+
+describe('更新提示组件', () => {
+  let checker: VersionChecker;
+  let notifier: UpdateNotifier;
+
+  const info: VersionInfo = {
+    currentVersion: '1.0.0',
+    newVersion: '1.1.0',
+    updateAvailable: true,
+    timestamp: Date.now()
+  };
+
+  const getRoot = () => document.querySelector<HTMLElement>('.vs-notifier') as HTMLElement;
+  const click = (action: string) => {
+    getRoot().querySelector<HTMLButtonElement>(`[data-action="${action}"]`)?.click();
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    checker = new VersionChecker({ autoStart: false });
+  });
+
+  afterEach(() => {
+    notifier.destroy();
+    jest.useRealTimers();
+  });
+
+  test('应该在 update 事件触发时展示可访问的提示', () => {
+    notifier = attachUpdateNotifier(checker);
+    expect(getRoot().hidden).toBe(true);
+    expect(getRoot().getAttribute('role')).toBe('status');
+    expect(getRoot().getAttribute('aria-live')).toBe('polite');
+
+    checker.triggerEvent('update', info);
+    expect(getRoot().hidden).toBe(false);
+    expect(getRoot().dataset.version).toBe('1.1.0');
+    expect(getRoot().classList.contains('vs-notifier--toast')).toBe(true);
+    expect(document.getElementById('version-sentinel-ui-style')).not.toBeNull();
+  });
+
+  test('应该支持 banner 形式和自定义文案', () => {
+    notifier = attachUpdateNotifier(checker, {
+      variant: 'banner',
+      messages: { title: 'New version available', reload: 'Reload' }
+    });
+
+    expect(getRoot().classList.contains('vs-notifier--banner')).toBe(true);
+    expect(getRoot().querySelector('.vs-notifier__title')?.textContent).toBe('New version available');
+    expect(getRoot().querySelector('[data-action="reload"]')?.textContent).toBe('Reload');
+    expect(getRoot().querySelector('[data-action="later"]')?.textContent).toBe('稍后提醒');
+  });
+
+  test('点击刷新应该调用 onReload', () => {
+    const onReload = jest.fn();
+    notifier = attachUpdateNotifier(checker, { onReload });
+
+    checker.triggerEvent('update', info);
+    click('reload');
+    expect(onReload).toHaveBeenCalledWith(info);
+  });
+
+  test('点击稍后提醒应该隐藏并在指定时间后再次展示', () => {
+    notifier = attachUpdateNotifier(checker, { snoozeMinutes: 5 });
+
+    checker.triggerEvent('update', info);
+    click('later');
+    expect(getRoot().hidden).toBe(true);
+
+    jest.advanceTimersByTime(5 * 60 * 1000 - 1);
+    expect(getRoot().hidden).toBe(true);
+    jest.advanceTimersByTime(1);
+    expect(getRoot().hidden).toBe(false);
+  });
+
+  test('点击忽略此版本应该确认版本并隐藏', () => {
+    const acknowledge = jest.spyOn(checker, 'acknowledge');
+    notifier = attachUpdateNotifier(checker);
+
+    checker.triggerEvent('update', info);
+    click('dismiss');
+    expect(acknowledge).toHaveBeenCalledWith('1.1.0');
+    expect(getRoot().hidden).toBe(true);
+
+    // 没有待处理的版本时忽略点击
+    click('reload');
+    expect(getRoot().hidden).toBe(true);
+  });
+
+  test('按 Escape 应该隐藏提示', () => {
+    notifier = attachUpdateNotifier(checker);
+    checker.triggerEvent('update', info);
+    getRoot().dispatchEvent(new KeyboardEvent('keydown', { key: 'Escape' }));
+    expect(getRoot().hidden).toBe(true);
+  });
+
+  test('销毁后应该移除 DOM 并停止监听', () => {
+    const container = document.createElement('section');
+    document.body.append(container);
+    notifier = attachUpdateNotifier(checker, { container });
+    expect(container.querySelector('.vs-notifier')).not.toBeNull();
+
+    checker.triggerEvent('update', info);
+    click('later');
+    notifier.destroy();
+    expect(container.querySelector('.vs-notifier')).toBeNull();
+
+    checker.triggerEvent('update', info);
+    jest.advanceTimersByTime(60 * 60 * 1000);
+    expect(document.querySelector('.vs-notifier')).toBeNull();
+  });
+});
@@ -1,4 +1,4 @@
-import { VersionChecker, createVersionChecker } from '../index';
+import { VersionChecker, createVersionChecker, CancelledError, DestroyedError, HttpError, TimeoutError } from '../index';
 
 // 添加 Headers polyfill
 class HeadersPolyfill {
@@ -86,7 +86,7 @@ describe('VersionChecker', () => {
   });
 
   afterEach(() => {
-    if (checker) {
+    if (checker && checker.status !== 'destroyed') {
       checker.stop();
     }
     if (fetchMock) {
@@ -164,11 +164,11 @@ describe('VersionChecker', () => {
       jest.useRealTimers();
     });
 
-    test('应该开始自动检查', () => {
+    test('应该开始自动检查', async () => {
       checker.start();
       expect(fetchMock).toHaveBeenCalledTimes(1);
       
-      jest.advanceTimersByTime(1000);
+      await jest.advanceTimersByTimeAsync(1000);
       expect(fetchMock).toHaveBeenCalledTimes(2);
     });
 
@@ -324,6 +324,74 @@ describe('VersionChecker', () => {
       checker.triggerEvent('check');
       expect(handler).toHaveBeenCalledTimes(1);
     });
+
+    test('on() 应该返回取消监听的函数', () => {
+      const handler = jest.fn();
+      const unsubscribe = checker.on('check', handler);
+
+      checker.triggerEvent('check');
+      unsubscribe();
+      checker.triggerEvent('check');
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+
+    test('once() 添加的监听器应该只触发一次', () => {
+      const handler = jest.fn();
+      const removed = jest.fn();
+      checker.once('check', handler);
+      checker.once('check', removed);
+      checker.off('check', removed);
+
+      checker.triggerEvent('check');
+      checker.triggerEvent('check');
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(removed).not.toHaveBeenCalled();
+    });
+
+    test('通配符监听器应该在具体监听器之后收到所有事件', async () => {
+      const calls: string[] = [];
+      checker.on('*', event => {
+        if (event.type !== 'statechange' && event.type !== 'metrics') {
+          calls.push(`*:${event.type}`);
+        }
+      });
+      checker.on('version', event => {
+        calls.push(`version:${event.payload.newVersion}`);
+      });
+
+      await checker.check();
+      expect(calls).toEqual(['*:check', 'version:W/"123"', '*:version']);
+    });
+
+    test('应该根据事件类型推断事件数据的类型', () => {
+      const retryCounts: number[] = [];
+      checker.on('retry', event => {
+        retryCounts.push(event.payload.retryCount);
+      });
+      // @ts-expect-error 'update' 事件的数据是 VersionInfo,没有 retryCount 字段
+      checker.on('update', event => event.payload.retryCount);
+
+      checker.triggerEvent('retry', { error: null, retryCount: 2, attempt: 3, delay: 0 });
+      expect(retryCounts).toEqual([2]);
+    });
+
+    test('应该把异步监听器的拒绝交给 onListenerError', async () => {
+      const onListenerError = jest.fn();
+      const errorChecker = new VersionChecker({ autoStart: false, onListenerError });
+      const error = new Error('Async listener error');
+      errorChecker.on('check', async () => {
+        throw error;
+      });
+      errorChecker.on('version', () => {
+        throw error;
+      });
+
+      await errorChecker.check();
+      await Promise.resolve();
+      expect(onListenerError).toHaveBeenCalledTimes(2);
+      expect(onListenerError).toHaveBeenCalledWith(error, expect.objectContaining({ type: 'check' }));
+      expect(onListenerError).toHaveBeenCalledWith(error, expect.objectContaining({ type: 'version' }));
+    });
   });
 
   describe('重试机制', () => {
@@ -363,6 +431,143 @@ describe('VersionChecker', () => {
       expect(retryHandler).toHaveBeenCalledTimes(2);
     }, 10000);
 
+    describe('重试策略', () => {
+      const failingResponse = (status: number, headers: Record<string, string> = {}) =>
+        createMockResponse(headers, { ok: false, status, statusText: 'Error' });
+
+      const collectDelays = async (options: ConstructorParameters<typeof VersionChecker>[0]) => {
+        const retryChecker = new VersionChecker({ autoStart: false, retryTimes: 4, ...options });
+        const delays: number[] = [];
+        retryChecker.on('retry', (event: any) => delays.push(event.payload.delay));
+        fetchMock.mockRejectedValue(new Error('Network error'));
+
+        const promise = retryChecker.check().catch(() => {});
+        await jest.runAllTimersAsync();
+        await promise;
+        return delays;
+      };
+
+      test('应该默认使用固定重试间隔', async () => {
+        expect(await collectDelays({ retryInterval: 1000 })).toEqual([1000, 1000, 1000, 1000]);
+      });
+
+      test('应该按指数退避并限制上限', async () => {
+        const delays = await collectDelays({
+          retryInterval: 1000,
+          retryBackoff: 'exponential',
+          maxRetryInterval: 5000
+        });
+        expect(delays).toEqual([1000, 2000, 4000, 5000]);
+      });
+
+      test('应该支持 full 抖动', async () => {
+        const randomSpy = jest.spyOn(Math, 'random').mockReturnValue(0.5);
+        const delays = await collectDelays({
+          retryInterval: 1000,
+          retryBackoff: 'exponential',
+          retryJitter: 'full'
+        });
+        randomSpy.mockRestore();
+        expect(delays).toEqual([500, 1000, 2000, 4000]);
+      });
+
+      test('应该支持 decorrelated 抖动', async () => {
+        const randomSpy = jest.spyOn(Math, 'random').mockReturnValue(0.999999);
+        const delays = await collectDelays({
+          retryInterval: 1000,
+          retryJitter: 'decorrelated',
+          maxRetryInterval: 20000
+        });
+        randomSpy.mockRestore();
+        expect(delays).toEqual([3000, 9000, 20000, 20000]);
+      });
+
+      test('retry 事件应该包含重试次数、请求序号和等待时间', async () => {
+        const retryChecker = new VersionChecker({ autoStart: false, retryTimes: 1, retryInterval: 1000 });
+        const retryHandler = jest.fn();
+        retryChecker.on('retry', retryHandler);
+        fetchMock.mockRejectedValueOnce(new Error('Network error'));
+
+        const promise = retryChecker.check();
+        await jest.runAllTimersAsync();
+        await promise;
+
+        expect(retryHandler).toHaveBeenCalledWith(expect.objectContaining({
+          payload: expect.objectContaining({ retryCount: 1, attempt: 2, delay: 1000 })
+        }));
+      });
+
+      test('应该在成功后重置重试计数', async () => {
+        const retryChecker = new VersionChecker({
+          autoStart: false,
+          retryTimes: 2,
+          retryInterval: 1000,
+          retryBackoff: 'exponential'
+        });
+        const delays: number[] = [];
+        retryChecker.on('retry', (event: any) => delays.push(event.payload.delay));
+
+        fetchMock.mockRejectedValueOnce(new Error('Network error'));
+        let promise = retryChecker.check();
+        await jest.runAllTimersAsync();
+        await promise;
+
+        fetchMock
+          .mockRejectedValueOnce(new Error('Network error'))
+          .mockRejectedValueOnce(new Error('Network error'));
+        promise = retryChecker.check();
+        await jest.runAllTimersAsync();
+        await promise;
+
+        expect(delays).toEqual([1000, 1000, 2000]);
+      });
+
+      test('应该遵循 429 响应的 Retry-After 秒数', async () => {
+        fetchMock.mockResolvedValueOnce(failingResponse(429, { 'retry-after': '7' }));
+        const retryChecker = new VersionChecker({ autoStart: false, retryTimes: 1, retryInterval: 1000 });
+        const retryHandler = jest.fn();
+        retryChecker.on('retry', retryHandler);
+
+        const promise = retryChecker.check();
+        await jest.runAllTimersAsync();
+        await promise;
+
+        expect(retryHandler.mock.calls[0][0].payload.delay).toBe(7000);
+        expect(retryHandler.mock.calls[0][0].payload.error).toBeInstanceOf(HttpError);
+      });
+
+      test('应该遵循 503 响应的 Retry-After 日期', async () => {
+        const retryAt = new Date(Date.now() + 12000).toUTCString();
+        fetchMock.mockResolvedValueOnce(failingResponse(503, { 'retry-after': retryAt }));
+        const retryChecker = new VersionChecker({ autoStart: false, retryTimes: 1, retryInterval: 1000 });
+        const retryHandler = jest.fn();
+        retryChecker.on('retry', retryHandler);
+
+        const promise = retryChecker.check();
+        await jest.runAllTimersAsync();
+        await promise;
+
+        const delay = retryHandler.mock.calls[0][0].payload.delay;
+        expect(delay).toBeGreaterThan(10000);
+        expect(delay).toBeLessThanOrEqual(12000);
+      });
+
+      test('应该忽略其他状态码和无效的 Retry-After', async () => {
+        fetchMock
+          .mockResolvedValueOnce(failingResponse(500, { 'retry-after': '7' }))
+          .mockResolvedValueOnce(failingResponse(429, { 'retry-after': 'soon' }));
+        const retryChecker = new VersionChecker({ autoStart: false, retryTimes: 2, retryInterval: 1000 });
+        const delays: number[] = [];
+        retryChecker.on('retry', (event: any) => delays.push(event.payload.delay));
+
+        const promise = retryChecker.check();
+        await jest.runAllTimersAsync();
+        await promise;
+
+        expect(delays).toEqual([1000, 1000]);
+      });
+    });
+
     describe('错误处理', () => {
       let noRetryChecker: VersionChecker;
       let errorHandler: jest.Mock;
@@ -513,6 +718,664 @@ describe('VersionChecker', () => {
     });
   });
 
+  describe('JSON 版本清单策略', () => {
+    test('应该从响应体中读取版本号并附带版本清单', async () => {
+      const jsonChecker = new VersionChecker({
+        autoStart: false,
+        compareStrategy: 'json'
+      });
+      const updateHandler = jest.fn();
+      jsonChecker.on('update', updateHandler);
+
+      fetchMock.mockImplementationOnce(() =>
+        Promise.resolve(createMockResponse({}, {
+          json: () => Promise.resolve({ version: '2.4.0', buildTime: 1 })
+        }))
+      );
+      await jsonChecker.check();
+
+      const manifest = { version: '2.4.1', buildTime: 2 };
+      fetchMock.mockImplementationOnce(() =>
+        Promise.resolve(createMockResponse({}, {
+          json: () => Promise.resolve(manifest)
+        }))
+      );
+      const info = await jsonChecker.check();
+
+      expect(info.currentVersion).toBe('2.4.0');
+      expect(info.newVersion).toBe('2.4.1');
+      expect(info.updateAvailable).toBe(true);
+      expect(info.manifest).toEqual(manifest);
+      expect(updateHandler).toHaveBeenCalledWith(expect.objectContaining({
+        payload: expect.objectContaining({ manifest })
+      }));
+    });
+
+    test('应该支持嵌套的版本字段路径', async () => {
+      const jsonChecker = new VersionChecker({
+        autoStart: false,
+        compareStrategy: 'json',
+        versionField: 'meta.build'
+      });
+
+      fetchMock.mockImplementationOnce(() =>
+        Promise.resolve(createMockResponse({}, {
+          json: () => Promise.resolve({ meta: { build: 42 } })
+        }))
+      );
+
+      const info = await jsonChecker.check();
+      expect(info.newVersion).toBe('42');
+    });
+
+    test('应该在字段不存在时返回 null 版本', async () => {
+      const jsonChecker = new VersionChecker({
+        autoStart: false,
+        compareStrategy: 'json',
+        versionField: 'meta.version'
+      });
+
+      fetchMock.mockImplementationOnce(() =>
+        Promise.resolve(createMockResponse({}, {
+          json: () => Promise.resolve({ meta: null })
+        }))
+      );
+
+      const info = await jsonChecker.check();
+      expect(info.newVersion).toBeNull();
+    });
+
+    test('应该在响应体不是对象时抛出错误', async () => {
+      const jsonChecker = new VersionChecker({
+        autoStart: false,
+        compareStrategy: 'json',
+        retryTimes: 0
+      });
+
+      fetchMock.mockImplementationOnce(() =>
+        Promise.resolve(createMockResponse({}, {
+          json: () => Promise.resolve('2.4.1')
+        }))
+      );
+
+      await expect(jsonChecker.check()).rejects.toThrow('Invalid version manifest');
+    });
+  });
+
+  describe('自定义提取与比较函数', () => {
+    test('应该在自定义策略中使用版本提取函数', async () => {
+      const versionExtractor = jest.fn(async (response: Response) => {
+        const text = await response.text();
+        return text.trim();
+      });
+      const customChecker = new VersionChecker({
+        autoStart: false,
+        compareStrategy: 'custom',
+        versionExtractor
+      });
+
+      fetchMock.mockImplementationOnce(() =>
+        Promise.resolve(createMockResponse({ 'x-version': '1.0.0' }, {
+          text: () => Promise.resolve('build-7\n')
+        }))
+      );
+
+      const info = await customChecker.check();
+      expect(versionExtractor).toHaveBeenCalledTimes(1);
+      expect(info.newVersion).toBe('build-7');
+    });
+
+    test('应该在其他策略中忽略版本提取函数', async () => {
+      const versionExtractor = jest.fn(() => 'ignored');
+      const etagChecker = new VersionChecker({
+        autoStart: false,
+        compareStrategy: 'etag',
+        versionExtractor
+      });
+
+      const info = await etagChecker.check();
+      expect(versionExtractor).not.toHaveBeenCalled();
+      expect(info.newVersion).toBe('W/"123"');
+    });
+
+    test('应该使用版本比较函数判断是否更新', async () => {
+      const versionComparator = jest.fn((current: string, next: string) => Number(next) > Number(current));
+      const customChecker = new VersionChecker({
+        autoStart: false,
+        compareStrategy: 'custom',
+        versionComparator
+      });
+
+      fetchMock
+        .mockResolvedValueOnce(createMockResponse({ 'x-version': '5' }))
+        .mockResolvedValueOnce(createMockResponse({ 'x-version': '4' }))
+        .mockResolvedValueOnce(createMockResponse({ 'x-version': '6' }));
+
+      await customChecker.check();
+      const downgrade = await customChecker.check();
+      expect(downgrade.updateAvailable).toBe(false);
+      expect(versionComparator).toHaveBeenLastCalledWith('5', '4');
+
+      const upgrade = await customChecker.check();
+      expect(upgrade.updateAvailable).toBe(true);
+      expect(upgrade.currentVersion).toBe('5');
+      expect(versionComparator).toHaveBeenLastCalledWith('5', '6');
+    });
+  });
+
+  describe('语义化版本模式', () => {
+    const mockVersions = (...versions: string[]) => {
+      versions.forEach(version => {
+        fetchMock.mockResolvedValueOnce(createMockResponse({ 'x-version': version }));
+      });
+    };
+
+    test('应该检测更新并给出更新级别', async () => {
+      const semverChecker = new VersionChecker({
+        autoStart: false,
+        compareStrategy: 'custom',
+        semver: true
+      });
+      mockVersions('1.2.3', '1.2.4', '2.0.0-rc.1', '2.0.0');
+
+      await semverChecker.check();
+      expect((await semverChecker.check()).severity).toBe('patch');
+      expect((await semverChecker.check()).severity).toBe('major');
+
+      const info = await semverChecker.check();
+      expect(info.updateAvailable).toBe(true);
+      expect(info.severity).toBe('prerelease');
+    });
+
+    test('应该默认忽略降级', async () => {
+      const semverChecker = new VersionChecker({
+        autoStart: false,
+        compareStrategy: 'custom',
+        semver: true
+      });
+      const downgradeHandler = jest.fn();
+      semverChecker.on('downgrade', downgradeHandler);
+      mockVersions('2.0.0', '1.9.0', '2.0.0');
+
+      await semverChecker.check();
+      const downgrade = await semverChecker.check();
+      expect(downgrade.updateAvailable).toBe(false);
+      expect(downgrade.downgrade).toBe(true);
+      expect(downgradeHandler).not.toHaveBeenCalled();
+
+      // 当前版本标记保持不变,回到原版本不视为更新
+      const restored = await semverChecker.check();
+      expect(restored.updateAvailable).toBe(false);
+      expect(restored.currentVersion).toBe('2.0.0');
+    });
+
+    test('应该在 report 策略下触发降级事件', async () => {
+      const semverChecker = new VersionChecker({
+        autoStart: false,
+        compareStrategy: 'custom',
+        semver: true,
+        downgradePolicy: 'report'
+      });
+      const downgradeHandler = jest.fn();
+      const updateHandler = jest.fn();
+      semverChecker.on('downgrade', downgradeHandler);
+      semverChecker.on('update', updateHandler);
+      mockVersions('2.0.0', '1.9.0');
+
+      await semverChecker.check();
+      await semverChecker.check();
+      expect(updateHandler).not.toHaveBeenCalled();
+      expect(downgradeHandler).toHaveBeenCalledWith(expect.objectContaining({
+        type: 'downgrade',
+        payload: expect.objectContaining({ currentVersion: '2.0.0', newVersion: '1.9.0', downgrade: true })
+      }));
+    });
+
+    test('应该在版本无法解析时回退到版本比较函数', async () => {
+      const semverChecker = new VersionChecker({
+        autoStart: false,
+        semver: true
+      });
+      fetchMock.mockResolvedValueOnce(createMockResponse({ 'etag': 'W/"456"' }));
+
+      await semverChecker.check();
+      const info = await semverChecker.check();
+      expect(info.updateAvailable).toBe(true);
+      expect(info.severity).toBeUndefined();
+    });
+  });
+
+  describe('请求配置', () => {
+    test('应该默认发送不带缓存的 GET 请求', async () => {
+      await checker.check();
+      expect(fetchMock).toHaveBeenCalledWith('/version', expect.objectContaining({
+        method: 'GET',
+        cache: 'no-cache',
+        credentials: 'same-origin',
+        headers: { 'Cache-Control': 'no-cache' }
+      }));
+    });
+
+    test('应该使用配置的请求方法、请求头和凭据模式', async () => {
+      const requestChecker = new VersionChecker({
+        autoStart: false,
+        versionUrl: '/version',
+        method: 'HEAD',
+        headers: { Authorization: 'Bearer token' },
+        credentials: 'include'
+      });
+
+      await requestChecker.check();
+      expect(fetchMock).toHaveBeenCalledWith('/version', expect.objectContaining({
+        method: 'HEAD',
+        credentials: 'include',
+        headers: { 'Cache-Control': 'no-cache', Authorization: 'Bearer token' }
+      }));
+    });
+
+    test('json 策略应该始终使用 GET', async () => {
+      const jsonChecker = new VersionChecker({
+        autoStart: false,
+        compareStrategy: 'json',
+        method: 'HEAD'
+      });
+      fetchMock.mockResolvedValueOnce(createMockResponse({}, {
+        json: () => Promise.resolve({ version: '1.0.0' })
+      }));
+
+      await jsonChecker.check();
+      expect(fetchMock).toHaveBeenCalledWith('/', expect.objectContaining({ method: 'GET' }));
+    });
+
+    test('应该在开启 cacheBuster 时附加时间戳参数', async () => {
+      jest.setSystemTime(1700000000000);
+      const busterChecker = new VersionChecker({
+        autoStart: false,
+        versionUrl: '/version.json?env=prod#hash',
+        cacheBuster: true
+      });
+      const namedChecker = new VersionChecker({
+        autoStart: false,
+        versionUrl: '/version.json',
+        cacheBuster: 'v'
+      });
+
+      await busterChecker.check();
+      await namedChecker.check();
+      expect(fetchMock).toHaveBeenNthCalledWith(1, '/version.json?env=prod&_t=1700000000000#hash', expect.anything());
+      expect(fetchMock).toHaveBeenNthCalledWith(2, '/version.json?v=1700000000000', expect.anything());
+    });
+
+    test('应该在请求超时时中止请求并抛出 TimeoutError', async () => {
+      const timeoutChecker = new VersionChecker({
+        autoStart: false,
+        retryTimes: 0,
+        requestTimeout: 5000
+      });
+      let signal: AbortSignal | undefined;
+      fetchMock.mockImplementationOnce((_url: string, init: RequestInit) => {
+        signal = init.signal ?? undefined;
+        return new Promise(() => undefined);
+      });
+      const errorHandler = jest.fn();
+      timeoutChecker.on('error', errorHandler);
+
+      const result = timeoutChecker.check();
+      const assertion = expect(result).rejects.toBeInstanceOf(TimeoutError);
+      jest.advanceTimersByTime(5000);
+      await assertion;
+      expect(signal?.aborted).toBe(true);
+      expect(errorHandler.mock.calls[0][0].payload).toMatchObject({ name: 'TimeoutError', timeout: 5000 });
+    });
+
+    test('超时时间覆盖读取响应体的阶段', async () => {
+      const timeoutChecker = new VersionChecker({
+        autoStart: false,
+        compareStrategy: 'json',
+        retryTimes: 0,
+        requestTimeout: 1000
+      });
+      fetchMock.mockResolvedValueOnce(createMockResponse({}, {
+        json: () => new Promise(() => undefined)
+      }));
+
+      const result = timeoutChecker.check();
+      const assertion = expect(result).rejects.toBeInstanceOf(TimeoutError);
+      await Promise.resolve();
+      jest.advanceTimersByTime(1000);
+      await assertion;
+    });
+
+    test('requestTimeout 为 0 时不设置超时', async () => {
+      const noTimeoutChecker = new VersionChecker({
+        autoStart: false,
+        requestTimeout: 0
+      });
+
+      await noTimeoutChecker.check();
+      expect(jest.getTimerCount()).toBe(0);
+    });
+  });
+
+  describe('条件请求', () => {
+    const notModified = () => createMockResponse({}, { ok: false, status: 304, statusText: 'Not Modified' });
+
+    test('etag 策略应该以当前版本标记发送 If-None-Match', async () => {
+      await checker.check();
+      await checker.check();
+
+      expect(fetchMock.mock.calls[0][1].headers).not.toHaveProperty('If-None-Match');
+      expect(fetchMock.mock.calls[1][1]).toEqual(expect.objectContaining({
+        cache: 'no-store',
+        headers: { 'Cache-Control': 'no-cache', 'If-None-Match': 'W/"123"' }
+      }));
+    });
+
+    test('last-modified 策略应该发送 If-Modified-Since', async () => {
+      const lastModifiedChecker = new VersionChecker({ autoStart: false, compareStrategy: 'last-modified' });
+      await lastModifiedChecker.check();
+      await lastModifiedChecker.check();
+
+      expect(fetchMock.mock.calls[1][1].headers).toEqual(expect.objectContaining({
+        'If-Modified-Since': 'Wed, 21 Oct 2023 07:28:00 GMT'
+      }));
+    });
+
+    test('json 策略和关闭 conditionalRequests 时不应该发送条件请求头', async () => {
+      const jsonChecker = new VersionChecker({ autoStart: false, compareStrategy: 'json', initialVersion: '1.0.0' });
+      const plainChecker = new VersionChecker({ autoStart: false, initialVersion: 'W/"123"', conditionalRequests: false });
+      await jsonChecker.check();
+      await plainChecker.check();
+
+      fetchMock.mock.calls.forEach(([, init]) => {
+        expect(init.cache).toBe('no-cache');
+        expect(init.headers).toEqual({ 'Cache-Control': 'no-cache' });
+      });
+    });
+
+    test('304 响应应该视为没有更新,并在检查结果中报告本次节省的字节数', async () => {
+      const updateHandler = jest.fn();
+      const checkHandler = jest.fn();
+      checker.on('update', updateHandler);
+      checker.on('check', checkHandler);
+      fetchMock.mockResolvedValueOnce(createMockResponse({ etag: 'W/"123"', 'content-length': '2048' }));
+      fetchMock.mockResolvedValueOnce(notModified());
+
+      const first = await checker.check();
+      expect(first).not.toHaveProperty('bytesSaved');
+      const info = await checker.check();
+      expect(info).toEqual(expect.objectContaining({
+        currentVersion: 'W/"123"',
+        newVersion: 'W/"123"',
+        updateAvailable: false,
+        notModified: true,
+        bytesSaved: 2048
+      }));
+      expect(updateHandler).not.toHaveBeenCalled();
+
+      await checker.check();
+      // check 事件在请求前触发,报告此前累计节省的字节数
+      expect(checkHandler.mock.calls.map(([event]) => event.payload)).toEqual([
+        { conditional: false, bytesSaved: 0 },
+        { conditional: true, bytesSaved: 0 },
+        { conditional: true, bytesSaved: 2048 }
+      ]);
+    });
+
+    test('HEAD 请求的 304 响应不应该计入节省的字节数', async () => {
+      const headChecker = new VersionChecker({ autoStart: false, method: 'HEAD', initialVersion: 'W/"123"' });
+      const checkHandler = jest.fn();
+      headChecker.on('check', checkHandler);
+      fetchMock.mockResolvedValueOnce(createMockResponse({ etag: 'W/"123"', 'content-length': '2048' }));
+      fetchMock.mockResolvedValueOnce(notModified());
+
+      await headChecker.check();
+      const info = await headChecker.check();
+      expect(info.notModified).toBe(true);
+      expect(info).not.toHaveProperty('bytesSaved');
+      await headChecker.check();
+      expect(checkHandler).toHaveBeenLastCalledWith(expect.objectContaining({
+        payload: { conditional: true, bytesSaved: 0 }
+      }));
+    });
+  });
+
+  describe('统计', () => {
+    test('应该统计请求次数、状态码和连续失败次数', async () => {
+      const statsChecker = new VersionChecker({ autoStart: false, retryTimes: 1, retryInterval: 100 });
+      fetchMock.mockImplementationOnce(() =>
+        Promise.resolve(createMockResponse({}, { ok: false, status: 503, statusText: 'Service Unavailable' }))
+      );
+      fetchMock.mockImplementationOnce(() => Promise.reject(new TypeError('Failed to fetch')));
+
+      const result = statsChecker.check();
+      const assertion = expect(result).rejects.toThrow('Failed to fetch');
+      await jest.advanceTimersByTimeAsync(100);
+      await assertion;
+
+      expect(statsChecker.getStats()).toEqual(expect.objectContaining({
+        requests: 2,
+        successes: 0,
+        failures: 2,
+        retries: 1,
+        consecutiveFailures: 2,
+        lastStatus: null,
+        lastSuccessTime: null,
+        timeSinceLastSuccess: null
+      }));
+
+      await statsChecker.check();
+      expect(statsChecker.getStats()).toEqual(expect.objectContaining({
+        requests: 3,
+        successes: 1,
+        failures: 2,
+        consecutiveFailures: 0,
+        lastStatus: 200,
+        timeSinceLastSuccess: 0
+      }));
+
+      jest.advanceTimersByTime(5000);
+      expect(statsChecker.getStats().timeSinceLastSuccess).toBe(5000);
+    });
+
+    test('每次请求完成后应该触发 metrics 事件并记录耗时', async () => {
+      const metricsHandler = jest.fn();
+      checker.on('metrics', metricsHandler);
+      fetchMock.mockImplementationOnce(() => new Promise(resolve => {
+        setTimeout(() => resolve(createMockResponse({ etag: 'W/"123"' })), 300);
+      }));
+
+      const result = checker.check();
+      await jest.advanceTimersByTimeAsync(300);
+      await result;
+
+      expect(metricsHandler).toHaveBeenCalledTimes(1);
+      const { payload } = metricsHandler.mock.calls[0][0];
+      expect(payload).toEqual({
+        latency: 300,
+        status: 200,
+        success: true,
+        stats: expect.objectContaining({ requests: 1, lastLatency: 300, averageLatency: 300 })
+      });
+    });
+
+    test('失败的请求应该在 metrics 事件中携带错误', async () => {
+      const noRetryChecker = new VersionChecker({ autoStart: false, retryTimes: 0 });
+      const metricsHandler = jest.fn();
+      noRetryChecker.on('metrics', metricsHandler);
+      fetchMock.mockImplementationOnce(() =>
+        Promise.resolve(createMockResponse({}, { ok: false, status: 500, statusText: 'Internal Server Error' }))
+      );
+
+      await expect(noRetryChecker.check()).rejects.toBeInstanceOf(HttpError);
+      expect(metricsHandler.mock.calls[0][0].payload).toEqual(expect.objectContaining({
+        status: 500,
+        success: false,
+        error: expect.any(HttpError)
+      }));
+    });
+
+    test('被取消的请求不应该计入统计', async () => {
+      fetchMock.mockImplementationOnce(() => new Promise(() => undefined));
+
+      const result = checker.check();
+      checker.stop();
+      await expect(result).rejects.toBeInstanceOf(CancelledError);
+      expect(checker.getStats()).toEqual(expect.objectContaining({ requests: 0, failures: 0 }));
+    });
+  });
+
+  describe('并发与取消', () => {
+    test('并发调用 check() 应该共享同一次请求', async () => {
+      const first = checker.check();
+      const second = checker.check();
+      expect(second).toBe(first);
+      await first;
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+
+      await checker.check();
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    test('重试期间调用 check() 应该复用正在进行的检查', async () => {
+      fetchMock.mockRejectedValueOnce(new Error('Network error'));
+      const first = checker.check();
+      await jest.advanceTimersByTimeAsync(0);
+      expect(checker.check()).toBe(first);
+
+      await jest.advanceTimersByTimeAsync(3000);
+      await expect(first).resolves.toMatchObject({ newVersion: 'W/"123"' });
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    test('stop() 应该中止正在进行的请求且不触发 error 事件', async () => {
+      let signal: AbortSignal | undefined;
+      fetchMock.mockImplementationOnce((_url: string, init: RequestInit) => {
+        signal = init.signal ?? undefined;
+        return new Promise(() => undefined);
+      });
+      const errorHandler = jest.fn();
+      checker.on('error', errorHandler);
+
+      const result = checker.check();
+      checker.stop();
+      await expect(result).rejects.toBeInstanceOf(CancelledError);
+      expect(signal?.aborted).toBe(true);
+      expect(errorHandler).not.toHaveBeenCalled();
+      expect(jest.getTimerCount()).toBe(0);
+    });
+
+    test('stop() 应该取消等待中的重试', async () => {
+      fetchMock.mockRejectedValueOnce(new Error('Network error'));
+      const retryHandler = jest.fn();
+      checker.on('retry', retryHandler);
+
+      const result = checker.check();
+      const assertion = expect(result).rejects.toBeInstanceOf(CancelledError);
+      await jest.advanceTimersByTimeAsync(0);
+      expect(retryHandler).toHaveBeenCalledTimes(1);
+
+      checker.stop();
+      await assertion;
+      await jest.advanceTimersByTimeAsync(3000);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    test('应该保证两次检查之间的最小间隔', async () => {
+      const throttledChecker = new VersionChecker({
+        autoStart: false,
+        minCheckInterval: 5000
+      });
+
+      await throttledChecker.check();
+      const second = throttledChecker.check();
+      await jest.advanceTimersByTimeAsync(4999);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+
+      await jest.advanceTimersByTimeAsync(1);
+      await second;
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('生命周期', () => {
+    test('应该反映检查和运行状态并触发 statechange 事件', async () => {
+      const transitions: string[] = [];
+      checker.on('statechange', event => {
+        transitions.push(`${event.payload.previousStatus}->${event.payload.status}`);
+      });
+      expect(checker.status).toBe('idle');
+
+      const pending = checker.check();
+      expect(checker.status).toBe('checking');
+      await pending;
+      expect(checker.status).toBe('idle');
+
+      checker.start();
+      await jest.advanceTimersByTimeAsync(0);
+      expect(checker.status).toBe('running');
+
+      checker.stop();
+      expect(checker.status).toBe('idle');
+      expect(transitions).toEqual([
+        'idle->checking',
+        'checking->idle',
+        'idle->checking',
+        'checking->running',
+        'running->idle'
+      ]);
+    });
+
+    test('应该在等待重试时处于 backing-off 状态', async () => {
+      fetchMock.mockRejectedValueOnce(new Error('Network error'));
+
+      const pending = checker.check();
+      await jest.advanceTimersByTimeAsync(0);
+      expect(checker.status).toBe('backing-off');
+
+      await jest.advanceTimersByTimeAsync(3000);
+      await pending;
+      expect(checker.status).toBe('idle');
+    });
+
+    test('destroy() 应该停止检查、中止请求并移除所有监听器', async () => {
+      const handler = jest.fn();
+      const stateHandler = jest.fn();
+      checker.on('check', handler);
+      checker.on('statechange', stateHandler);
+      checker.start();
+      const pending = checker.check();
+      handler.mockClear();
+
+      checker.destroy();
+      await expect(pending).rejects.toBeInstanceOf(CancelledError);
+      expect(checker.status).toBe('destroyed');
+      expect(stateHandler).toHaveBeenLastCalledWith(expect.objectContaining({
+        payload: { status: 'destroyed', previousStatus: 'idle' }
+      }));
+      expect(jest.getTimerCount()).toBe(0);
+
+      checker.triggerEvent('check');
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    test('销毁后调用方法应该抛出 DestroyedError', async () => {
+      const unsubscribe = checker.on('update', jest.fn());
+      checker.destroy();
+      checker.destroy();
+
+      expect(() => checker.start()).toThrow(DestroyedError);
+      expect(() => checker.stop()).toThrow('Cannot call stop() on a destroyed VersionChecker');
+      expect(() => checker.on('update', jest.fn())).toThrow(DestroyedError);
+      expect(() => checker.once('update', jest.fn())).toThrow(DestroyedError);
+      expect(() => checker.off('update', jest.fn())).toThrow(DestroyedError);
+      expect(() => checker.acknowledge('v1')).toThrow(DestroyedError);
+      await expect(checker.check()).rejects.toMatchObject({ name: 'DestroyedError', method: 'check' });
+      expect(unsubscribe).not.toThrow();
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+  });
+
   describe('工厂函数', () => {
     test('应该正确创建实例', () => {
       const checker = createVersionChecker({
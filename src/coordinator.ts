@@ -0,0 +1,356 @@
+/**
+ * 跨标签页协调器
+ *
+ * @remarks
+ * 同源的多个标签页通过 BroadcastChannel(不可用时回退到 localStorage 的 storage 事件)
+ * 互相发送心跳并选举出一个 leader。只有 leader 执行版本检查,并把检查结果广播给其他标签页。
+ *
+ * 选举规则:
+ * - leader 每隔 HEARTBEAT_INTERVAL 广播一次心跳
+ * - follower 超过 LEASE_TIMEOUT 未收到心跳时认为 leader 已失效,自行接任
+ * - 多个标签页同时接任时,id 较小的一方保留 leader 身份,其余退位
+ * - leader 关闭(pagehide)时主动广播退位消息,其他标签页立即接任;页面从往返缓存恢复(pageshow)时重新加入选举
+ * - leader 会把最近一次广播的数据发送给新加入的标签页,并标记为补发的数据
+ */
+
+/** leader 心跳间隔(毫秒) */
+const HEARTBEAT_INTERVAL = 1000;
+
+/** leader 心跳超时时间(毫秒) */
+const LEASE_TIMEOUT = 3000;
+
+/**
+ * 标签页之间传递的消息
+ */
+type CoordinatorMessage =
+  | { type: 'hello'; id: string }
+  | { type: 'heartbeat'; id: string }
+  | { type: 'resign'; id: string }
+  | { type: 'data'; id: string; data: unknown; replayed?: boolean };
+
+/**
+ * 消息传输通道
+ */
+interface CoordinatorTransport {
+  post(message: CoordinatorMessage): void;
+  close(): void;
+}
+
+/**
+ * 跨标签页协调器配置
+ */
+export interface TabCoordinatorOptions {
+  /** 通道名称,同名的标签页参与同一次选举 */
+  channelName: string;
+  /** leader 身份变化时调用 */
+  onLeadershipChange: (isLeader: boolean) => void;
+  /** 收到其他标签页广播的数据时调用,replayed 表示数据是 leader 向新加入的标签页补发的、可能已过时的数据 */
+  onData: (data: unknown, replayed: boolean) => void;
+}
+
+/**
+ * 跨标签页协调器类
+ *
+ * @example
+ * ```typescript
+ * const coordinator = new TabCoordinator({
+ *   channelName: 'version-sentinel:/version.json',
+ *   onLeadershipChange: (isLeader) => console.log('leader:', isLeader),
+ *   onData: (data) => console.log('收到广播:', data)
+ * });
+ * coordinator.start();
+ * ```
+ */
+export class TabCoordinator {
+  /**
+   * 当前标签页的唯一标识
+   * @readonly
+   */
+  public readonly id = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+
+  /**
+   * 协调器配置
+   * @private
+   */
+  private options: TabCoordinatorOptions;
+
+  /**
+   * 消息传输通道,环境不支持时为 null
+   * @private
+   */
+  private transport: CoordinatorTransport | null = null;
+
+  /**
+   * 选举定时器
+   * @private
+   */
+  private timer: NodeJS.Timeout | null = null;
+
+  /**
+   * 当前是否为 leader
+   * @private
+   */
+  private leader = false;
+
+  /**
+   * 是否已加入选举
+   * @private
+   */
+  private started = false;
+
+  /**
+   * 是否有资格参与选举
+   * @private
+   */
+  private eligible = true;
+
+  /**
+   * 最近一次收到其他 leader 心跳的时间
+   * @private
+   */
+  private lastHeartbeat = 0;
+
+  /**
+   * 最近一次广播的数据,leader 会把它发送给新加入的标签页
+   * @private
+   */
+  private lastData: unknown = undefined;
+
+  /**
+   * 页面关闭时主动退位的监听器
+   * @private
+   *
+   * @remarks
+   * 页面可能进入往返缓存,因此退出选举后继续监听 pageshow
+   */
+  private readonly handlePageHide = () => {
+    this.stop();
+    window.addEventListener('pageshow', this.handlePageShow);
+  };
+
+  /**
+   * 页面从往返缓存恢复时重新加入选举的监听器
+   * @private
+   */
+  private readonly handlePageShow = (event: PageTransitionEvent) => {
+    window.removeEventListener('pageshow', this.handlePageShow);
+    if (event.persisted) {
+      this.start();
+    }
+  };
+
+  constructor(options: TabCoordinatorOptions) {
+    this.options = options;
+  }
+
+  /**
+   * 当前标签页是否为 leader
+   */
+  public get isLeader(): boolean {
+    return this.leader;
+  }
+
+  /**
+   * 加入选举
+   *
+   * @remarks
+   * 启动后会先询问已有的 leader,在一个心跳间隔内未收到心跳才会接任。
+   * 环境既不支持 BroadcastChannel 也不支持 localStorage 时,当前标签页直接成为 leader。
+   */
+  public start(): void {
+    if (this.started) {
+      return;
+    }
+
+    this.started = true;
+    this.transport = createTransport(this.options.channelName, message => this.handleMessage(message));
+    if (!this.transport) {
+      this.setLeader(this.eligible);
+      return;
+    }
+
+    if (typeof window !== 'undefined') {
+      window.addEventListener('pagehide', this.handlePageHide);
+    }
+    this.transport.post({ type: 'hello', id: this.id });
+    this.lastHeartbeat = Date.now() - LEASE_TIMEOUT + HEARTBEAT_INTERVAL;
+    this.timer = setInterval(() => this.tick(), HEARTBEAT_INTERVAL);
+  }
+
+  /**
+   * 退出选举
+   *
+   * @remarks
+   * 如果当前是 leader,会广播退位消息让其他标签页立即接任
+   */
+  public stop(): void {
+    this.started = false;
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('pagehide', this.handlePageHide);
+      window.removeEventListener('pageshow', this.handlePageShow);
+    }
+    this.resign();
+    this.transport?.close();
+    this.transport = null;
+  }
+
+  /**
+   * 设置是否有资格参与选举
+   *
+   * @param eligible - 为 false 时,当前的 leader 会退位且不再接任
+   */
+  public setEligible(eligible: boolean): void {
+    this.eligible = eligible;
+    if (!eligible) {
+      this.resign();
+    } else if (this.started) {
+      if (this.transport) {
+        this.tick();
+      } else {
+        this.setLeader(true);
+      }
+    }
+  }
+
+  /**
+   * 向其他标签页广播数据
+   *
+   * @param data - 可被结构化克隆(BroadcastChannel)或 JSON 序列化(localStorage)的数据
+   */
+  public broadcast(data: unknown): void {
+    this.lastData = data;
+    this.transport?.post({ type: 'data', id: this.id, data });
+  }
+
+  /**
+   * 周期性的选举检查
+   *
+   * @private
+   */
+  private tick(): void {
+    if (this.leader) {
+      this.transport?.post({ type: 'heartbeat', id: this.id });
+    } else if (this.eligible && Date.now() - this.lastHeartbeat >= LEASE_TIMEOUT) {
+      this.transport?.post({ type: 'heartbeat', id: this.id });
+      this.setLeader(true);
+    }
+  }
+
+  /**
+   * 处理其他标签页的消息
+   *
+   * @private
+   * @param message - 收到的消息
+   */
+  private handleMessage(message: CoordinatorMessage): void {
+    if (message.id === this.id) {
+      return;
+    }
+
+    switch (message.type) {
+      case 'hello':
+        if (this.leader) {
+          this.transport?.post({ type: 'heartbeat', id: this.id });
+          if (this.lastData !== undefined) {
+            this.transport?.post({ type: 'data', id: this.id, data: this.lastData, replayed: true });
+          }
+        }
+        break;
+      case 'heartbeat':
+        // 同时存在多个 leader 时,id 较小的一方胜出
+        if (this.leader && message.id > this.id) {
+          break;
+        }
+        this.lastHeartbeat = Date.now();
+        this.setLeader(false);
+        break;
+      case 'resign':
+        this.lastHeartbeat = 0;
+        this.tick();
+        break;
+      case 'data':
+        this.options.onData(message.data, message.replayed === true);
+        break;
+    }
+  }
+
+  /**
+   * 退位并通知其他标签页
+   *
+   * @private
+   */
+  private resign(): void {
+    if (this.leader) {
+      this.transport?.post({ type: 'resign', id: this.id });
+      this.setLeader(false);
+    }
+  }
+
+  /**
+   * 更新 leader 身份并在变化时通知
+   *
+   * @private
+   * @param leader - 是否为 leader
+   */
+  private setLeader(leader: boolean): void {
+    if (this.leader !== leader) {
+      this.leader = leader;
+      this.options.onLeadershipChange(leader);
+    }
+  }
+}
+
+/**
+ * 创建消息传输通道
+ *
+ * @param channelName - 通道名称
+ * @param onMessage - 收到消息时的回调
+ * @returns 优先使用 BroadcastChannel,其次使用 localStorage,都不可用时返回 null
+ */
+function createTransport(
+  channelName: string,
+  onMessage: (message: CoordinatorMessage) => void
+): CoordinatorTransport | null {
+  if (typeof BroadcastChannel !== 'undefined') {
+    const channel = new BroadcastChannel(channelName);
+    channel.onmessage = (event: MessageEvent) => onMessage(event.data);
+    return {
+      post: message => channel.postMessage(message),
+      close: () => channel.close()
+    };
+  }
+
+  if (typeof window !== 'undefined' && typeof localStorage !== 'undefined') {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key !== channelName || !event.newValue) {
+        return;
+      }
+      let message: CoordinatorMessage;
+      try {
+        message = JSON.parse(event.newValue);
+      } catch {
+        // 忽略其他来源写入的非法数据
+        return;
+      }
+      onMessage(message);
+    };
+    window.addEventListener('storage', handleStorage);
+    return {
+      post: message => {
+        try {
+          // 附加随机值保证每次写入都会触发其他标签页的 storage 事件
+          localStorage.setItem(channelName, JSON.stringify({ ...message, nonce: Math.random() }));
+        } catch {
+          // 存储不可用(如隐私模式配额为 0)时放弃广播
+        }
+      },
+      close: () => window.removeEventListener('storage', handleStorage)
+    };
+  }
+
+  return null;
+}
@@ -0,0 +1,140 @@
+/**
+ * 类型化的事件发射器
+ *
+ * @remarks
+ * VersionChecker 和 VersionCheckerGroup 共用的事件监听实现,按事件映射表推断事件数据的类型。
+ * 支持一次性监听器和通配符 '*' 监听器,监听器的同步异常和异步拒绝都交给构造时传入的错误处理函数。
+ *
+ * @internal
+ */
+
+/**
+ * 事件对象
+ *
+ * @remarks
+ * 不指定事件类型时为所有事件的联合类型,可以通过 type 字段区分
+ */
+export type EmitterEvent<M, K extends keyof M = keyof M> = {
+  [E in K]: {
+    /** 事件类型 */
+    type: E;
+    /** 事件携带的数据 */
+    payload: M[E];
+    /** 事件发生的时间戳 */
+    timestamp: number;
+  };
+}[K];
+
+/**
+ * 事件监听器
+ */
+export type EmitterListener<M, K extends keyof M = keyof M> = (event: EmitterEvent<M, K>) => unknown;
+
+/**
+ * 类型化的事件发射器类
+ *
+ * @example
+ * ```typescript
+ * const emitter = new EventEmitter<{ ready: number }>((error) => console.error(error));
+ * const unsubscribe = emitter.add('ready', (event) => console.log(event.payload), false);
+ * emitter.emit('ready', 1);
+ * unsubscribe();
+ * ```
+ */
+export class EventEmitter<M> {
+  /**
+   * 事件监听器映射表
+   * 使用 Map 存储不同事件类型(包括通配符 '*')的监听器,值表示是否为一次性监听器
+   * @private
+   */
+  private listeners: Map<keyof M | '*', Map<EmitterListener<M, any>, boolean>> = new Map();
+
+  /**
+   * 监听器出错时的处理函数
+   * @private
+   */
+  private onError: (error: unknown, event: EmitterEvent<M>) => void;
+
+  constructor(onError: (error: unknown, event: EmitterEvent<M>) => void) {
+    this.onError = onError;
+  }
+
+  /**
+   * 注册事件监听器
+   *
+   * @param event - 事件类型或通配符
+   * @param callback - 事件回调函数
+   * @param once - 是否在首次触发后自动移除
+   * @returns 取消监听的函数,可以安全地重复调用
+   */
+  public add(event: keyof M | '*', callback: EmitterListener<M, any>, once: boolean): () => void {
+    if (!this.listeners.has(event)) {
+      this.listeners.set(event, new Map());
+    }
+    this.listeners.get(event)?.set(callback, once);
+    return () => this.remove(event, callback);
+  }
+
+  /**
+   * 移除事件监听器
+   *
+   * @param event - 事件类型或通配符
+   * @param callback - 要移除的事件回调函数
+   */
+  public remove(event: keyof M | '*', callback: EmitterListener<M, any>): void {
+    this.listeners.get(event)?.delete(callback);
+  }
+
+  /**
+   * 移除所有事件监听器
+   */
+  public clear(): void {
+    this.listeners.clear();
+  }
+
+  /**
+   * 触发事件,先通知对应事件的监听器,再通知通配符监听器
+   *
+   * @param event - 事件类型
+   * @param payload - 事件数据
+   */
+  public emit<K extends keyof M>(event: K, payload: M[K]): void {
+    const eventData = {
+      type: event,
+      payload,
+      timestamp: Date.now()
+    } as EmitterEvent<M>;
+
+    this.notify(event, eventData);
+    this.notify('*', eventData);
+  }
+
+  /**
+   * 调用指定键下的监听器
+   *
+   * @private
+   * @param key - 事件类型或通配符
+   * @param eventData - 事件对象
+   */
+  private notify(key: keyof M | '*', eventData: EmitterEvent<M>): void {
+    const listeners = this.listeners.get(key);
+    if (!listeners) {
+      return;
+    }
+
+    const handleError = (error: unknown) => this.onError(error, eventData);
+    Array.from(listeners).forEach(([callback, once]) => {
+      if (once) {
+        listeners.delete(callback);
+      }
+      try {
+        const result = callback(eventData);
+        if (result instanceof Promise) {
+          result.catch(handleError);
+        }
+      } catch (error) {
+        handleError(error);
+      }
+    });
+  }
+}
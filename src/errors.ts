@@ -0,0 +1,136 @@
+/**
+ * 版本检查器错误类型
+ * 
+ * @remarks
+ * 所有错误都继承自 Error,并通过 name 字段区分,便于在 'error' 事件中按类型处理。
+ */
+
+/**
+ * HTTP 响应错误
+ * 
+ * @remarks
+ * 版本检查请求返回非 2xx 状态码时抛出,携带状态码和服务端要求的重试等待时间。
+ * 
+ * @example
+ * ```typescript
+ * checker.on('error', (event) => {
+ *   if (event.payload instanceof HttpError && event.payload.status === 404) {
+ *     checker.stop();
+ *   }
+ * });
+ * ```
+ */
+export class HttpError extends Error {
+  /** HTTP 状态码 */
+  public readonly status: number;
+
+  /** HTTP 状态文本 */
+  public readonly statusText: string;
+
+  /** 
+   * 服务端通过 Retry-After 头要求的等待时间(毫秒)
+   * @remarks 响应未携带或无法解析 Retry-After 时为 null
+   */
+  public readonly retryAfter: number | null;
+
+  constructor(status: number, statusText: string, retryAfter: number | null = null) {
+    super(`HTTP error: ${status} ${statusText}`);
+    this.name = 'HttpError';
+    this.status = status;
+    this.statusText = statusText;
+    this.retryAfter = retryAfter;
+    Object.setPrototypeOf(this, HttpError.prototype);
+  }
+}
+
+/**
+ * 请求超时错误
+ * 
+ * @remarks
+ * 版本检查请求超过 requestTimeout 仍未完成时,检查器中止请求并抛出该错误
+ */
+export class TimeoutError extends Error {
+  /** 超时时间(毫秒) */
+  public readonly timeout: number;
+
+  constructor(timeout: number) {
+    super(`Request timed out after ${timeout}ms`);
+    this.name = 'TimeoutError';
+    this.timeout = timeout;
+    Object.setPrototypeOf(this, TimeoutError.prototype);
+  }
+}
+
+/**
+ * 检查取消错误
+ * 
+ * @remarks
+ * 调用 stop() 时,正在进行的检查(包括请求、重试等待和检查间隔等待)以该错误结束。
+ * 取消是主动行为,不会触发 'error' 事件,也不会重试
+ */
+export class CancelledError extends Error {
+  constructor() {
+    super('Version check was cancelled');
+    this.name = 'CancelledError';
+    Object.setPrototypeOf(this, CancelledError.prototype);
+  }
+}
+
+/**
+ * 检查器已销毁错误
+ * 
+ * @remarks
+ * 调用 destroy() 之后再调用检查器的方法时抛出,check() 以该错误拒绝
+ */
+export class DestroyedError extends Error {
+  /** 被调用的方法名 */
+  public readonly method: string;
+
+  constructor(method: string) {
+    super(`Cannot call ${method}() on a destroyed VersionChecker`);
+    this.name = 'DestroyedError';
+    this.method = method;
+    Object.setPrototypeOf(this, DestroyedError.prototype);
+  }
+}
+
+/**
+ * 推送传输错误
+ * 
+ * @remarks
+ * 推送连接多次重连失败、检查器放弃重连并回退到轮询时,通过 'error' 事件发出
+ */
+export class TransportError extends Error {
+  /** 最后一次断开的原因 */
+  public readonly reason: unknown;
+
+  constructor(message: string, reason?: unknown) {
+    super(message);
+    this.name = 'TransportError';
+    this.reason = reason;
+    Object.setPrototypeOf(this, TransportError.prototype);
+  }
+}
+
+/**
+ * 解析 Retry-After 响应头
+ * 
+ * @param value - Retry-After 头的值,可以是秒数或 HTTP 日期
+ * @returns 需要等待的毫秒数,无法解析时返回 null
+ */
+export function parseRetryAfter(value: string | null): number | null {
+  if (!value) {
+    return null;
+  }
+
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return Number(trimmed) * 1000;
+  }
+
+  const date = Date.parse(trimmed);
+  if (Number.isNaN(date)) {
+    return null;
+  }
+  return Math.max(0, date - Date.now());
+}
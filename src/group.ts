@@ -0,0 +1,370 @@
+/**
+ * 版本检查器组
+ *
+ * @remarks
+ * 同时监控多个独立部署的版本地址(如微前端中的多个子应用)。每个目标拥有独立的 VersionChecker,
+ * 但由组内的单个定时器统一调度,避免为每个目标各自创建定时器。
+ *
+ * - 目标发现新版本时触发带目标名称的 'update' 事件
+ * - 一轮检查中任意目标发现新版本时触发一次汇总的 'change' 事件
+ * - getVersions() 返回所有目标最新的版本信息
+ */
+import { VersionChecker } from './index';
+import { CancelledError } from './errors';
+import { EventEmitter } from './emitter';
+import { getDefaultLogger, silentLogger } from './logger';
+import {
+  VersionCheckerGroupOptions,
+  VersionCheckerGroupEventMap,
+  VersionCheckerGroupEventType,
+  VersionCheckerGroupListener,
+  VersionInfo
+} from './types';
+
+/**
+ * 组内目标的运行状态
+ */
+interface TargetEntry {
+  /** 目标的检查器 */
+  checker: VersionChecker;
+  /** 目标的检查间隔(毫秒) */
+  interval: number;
+  /** 目标下一次到期的时间戳 */
+  nextDueAt: number;
+  /** 最近一次检查得到的版本信息 */
+  latest: VersionInfo | null;
+  /** 取消目标事件监听的函数 */
+  unsubscribes: Array<() => void>;
+}
+
+/**
+ * 版本检查器组类
+ *
+ * @example
+ * ```typescript
+ * const group = new VersionCheckerGroup({
+ *   checkInterval: 60000,
+ *   targets: [
+ *     { name: 'shell', versionUrl: '/version.json', compareStrategy: 'json' },
+ *     { name: 'orders', versionUrl: '/apps/orders/version.json', compareStrategy: 'json' },
+ *     { name: 'reports', versionUrl: '/apps/reports/', checkInterval: 300000 }
+ *   ]
+ * });
+ *
+ * group.on('update', (event) => {
+ *   console.log(`${event.payload.target} 发布了新版本`, event.payload.info.newVersion);
+ * });
+ *
+ * group.on('change', (event) => {
+ *   console.log('有子应用更新:', event.payload.targets);
+ * });
+ * ```
+ */
+export class VersionCheckerGroup {
+  /**
+   * 组内目标,按名称索引
+   * @private
+   */
+  private targets: Map<string, TargetEntry> = new Map();
+
+  /**
+   * 组的默认检查间隔(毫秒)
+   * @private
+   */
+  private checkInterval: number;
+
+  /**
+   * 调度定时器,在最早到期的目标到期时触发
+   * @private
+   */
+  private timer: NodeJS.Timeout | null = null;
+
+  /**
+   * 当前一轮检查中发现更新的目标,不在一轮检查中时为 null
+   * @private
+   */
+  private roundUpdates: string[] | null = null;
+
+  /**
+   * 事件发射器
+   * @private
+   */
+  private events: EventEmitter<VersionCheckerGroupEventMap>;
+
+  /**
+   * 构造函数
+   *
+   * @param options - 组配置选项
+   * @throws 目标名称重复时抛出错误
+   */
+  constructor(options: VersionCheckerGroupOptions) {
+    const logger = options.logger ?? getDefaultLogger();
+    const onListenerError = options.onListenerError ?? ((error, event) => {
+      if (logger === silentLogger) {
+        console.error('Event listener error:', error);
+      } else {
+        logger.error('Event listener error', { event: event.type, error });
+      }
+    });
+    this.events = new EventEmitter<VersionCheckerGroupEventMap>(onListenerError);
+    this.checkInterval = options.checkInterval ?? 60000;
+
+    options.targets.forEach(({ name, ...targetOptions }) => {
+      if (this.targets.has(name)) {
+        throw new Error(`Duplicate version target name: ${name}`);
+      }
+      const checker = new VersionChecker({
+        logger,
+        ...targetOptions,
+        autoStart: false,
+        adaptiveScheduling: false,
+        crossTab: false,
+        transport: 'polling'
+      });
+      const entry: TargetEntry = {
+        checker,
+        interval: targetOptions.checkInterval ?? this.checkInterval,
+        nextDueAt: 0,
+        latest: null,
+        unsubscribes: []
+      };
+      entry.unsubscribes.push(
+        checker.on('version', event => {
+          entry.latest = event.payload;
+        }),
+        checker.on('update', event => this.handleTargetUpdate(name, event.payload))
+      );
+      this.targets.set(name, entry);
+    });
+
+    if (options.autoStart ?? true) {
+      this.start();
+    }
+  }
+
+  /**
+   * 开始检查
+   *
+   * @remarks
+   * 立即检查所有目标,之后按各目标的检查间隔定期检查。已在运行时不会执行任何操作
+   */
+  public start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    const now = Date.now();
+    this.targets.forEach(entry => {
+      entry.nextDueAt = now + entry.interval;
+    });
+    this.check().catch(() => {
+      // 错误已通过 error 事件通知
+    });
+    this.scheduleTick();
+  }
+
+  /**
+   * 停止检查,并取消所有目标正在进行的检查
+   */
+  public stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.targets.forEach(entry => entry.checker.stop());
+  }
+
+  /**
+   * 销毁组,停止检查并销毁所有目标的检查器,移除所有事件监听器
+   */
+  public destroy(): void {
+    this.stop();
+    this.targets.forEach(entry => {
+      entry.unsubscribes.forEach(unsubscribe => unsubscribe());
+      entry.checker.destroy();
+    });
+    this.targets.clear();
+    this.events.clear();
+  }
+
+  /**
+   * 立即检查
+   *
+   * @param names - 要检查的目标名称,默认检查所有目标
+   * @returns 所有目标的最新版本信息
+   *
+   * @remarks
+   * 单个目标失败不会影响其他目标,失败通过 'error' 事件通知。
+   * 本轮检查中有目标发现新版本时,在所有目标检查结束后触发一次 'change' 事件
+   */
+  public async check(names: string[] = Array.from(this.targets.keys())): Promise<Record<string, VersionInfo | null>> {
+    const isOuterRound = this.roundUpdates === null;
+    if (isOuterRound) {
+      this.roundUpdates = [];
+    }
+
+    await Promise.all(names.map(name => this.checkTarget(name)));
+
+    if (isOuterRound) {
+      const updated = this.roundUpdates ?? [];
+      this.roundUpdates = null;
+      if (updated.length > 0) {
+        this.events.emit('change', { targets: updated, versions: this.getVersions() });
+      }
+    }
+    return this.getVersions();
+  }
+
+  /**
+   * 获取目标的检查器
+   *
+   * @param name - 目标名称
+   * @returns 目标的检查器,不存在时返回 undefined
+   */
+  public getChecker(name: string): VersionChecker | undefined {
+    return this.targets.get(name)?.checker;
+  }
+
+  /**
+   * 获取所有目标最新的版本信息
+   *
+   * @returns 以目标名称为键的版本信息,尚未检查成功的目标为 null
+   */
+  public getVersions(): Record<string, VersionInfo | null> {
+    const versions: Record<string, VersionInfo | null> = {};
+    this.targets.forEach((entry, name) => {
+      versions[name] = entry.latest;
+    });
+    return versions;
+  }
+
+  /**
+   * 添加事件监听器
+   *
+   * @param event - 事件类型,'*' 表示监听所有事件
+   * @param callback - 事件回调函数
+   * @returns 取消监听的函数
+   */
+  public on<K extends VersionCheckerGroupEventType>(event: K, callback: VersionCheckerGroupListener<K>): () => void;
+  public on(event: '*', callback: VersionCheckerGroupListener): () => void;
+  public on(event: VersionCheckerGroupEventType | '*', callback: VersionCheckerGroupListener<any>): () => void {
+    return this.events.add(event, callback, false);
+  }
+
+  /**
+   * 添加只触发一次的事件监听器
+   *
+   * @param event - 事件类型,'*' 表示下一次触发的任意事件
+   * @param callback - 事件回调函数
+   * @returns 取消监听的函数
+   */
+  public once<K extends VersionCheckerGroupEventType>(event: K, callback: VersionCheckerGroupListener<K>): () => void;
+  public once(event: '*', callback: VersionCheckerGroupListener): () => void;
+  public once(event: VersionCheckerGroupEventType | '*', callback: VersionCheckerGroupListener<any>): () => void {
+    return this.events.add(event, callback, true);
+  }
+
+  /**
+   * 移除事件监听器
+   *
+   * @param event - 事件类型
+   * @param callback - 要移除的事件回调函数
+   */
+  public off<K extends VersionCheckerGroupEventType>(event: K, callback: VersionCheckerGroupListener<K>): void;
+  public off(event: '*', callback: VersionCheckerGroupListener): void;
+  public off(event: VersionCheckerGroupEventType | '*', callback: VersionCheckerGroupListener<any>): void {
+    this.events.remove(event, callback);
+  }
+
+  /**
+   * 把定时器设置到最早到期的目标
+   *
+   * @private
+   */
+  private scheduleTick(): void {
+    const dueTimes = Array.from(this.targets.values()).map(entry => entry.nextDueAt);
+    const delay = dueTimes.length > 0 ? Math.max(0, Math.min(...dueTimes) - Date.now()) : this.checkInterval;
+    this.timer = setTimeout(() => this.tick(), delay);
+  }
+
+  /**
+   * 定时器触发时检查到期的目标
+   *
+   * @private
+   *
+   * @remarks
+   * 到期时间按各目标的检查间隔累加,不受其他目标间隔的影响;
+   * 定时器被推迟(如页面在后台被节流)导致错过到期时间时,从当前时间重新计算
+   */
+  private tick(): void {
+    const now = Date.now();
+    const due: string[] = [];
+    this.targets.forEach((entry, name) => {
+      if (entry.nextDueAt > now) {
+        return;
+      }
+      due.push(name);
+      entry.nextDueAt += entry.interval;
+      if (entry.nextDueAt <= now) {
+        entry.nextDueAt = now + entry.interval;
+      }
+    });
+
+    if (due.length > 0) {
+      this.check(due).catch(() => {
+        // 错误已通过 error 事件通知
+      });
+    }
+    this.scheduleTick();
+  }
+
+  /**
+   * 检查单个目标
+   *
+   * @private
+   * @param name - 目标名称
+   */
+  private async checkTarget(name: string): Promise<void> {
+    const entry = this.targets.get(name);
+    if (!entry) {
+      return;
+    }
+
+    try {
+      await entry.checker.check();
+    } catch (error) {
+      if (!(error instanceof CancelledError)) {
+        this.events.emit('error', { target: name, error });
+      }
+    }
+  }
+
+  /**
+   * 处理目标的更新
+   *
+   * @private
+   * @param name - 目标名称
+   * @param info - 目标的版本信息
+   *
+   * @remarks
+   * 在一轮检查之外(如直接调用目标检查器的 check())发现更新时,立即触发 'change' 事件
+   */
+  private handleTargetUpdate(name: string, info: VersionInfo): void {
+    this.events.emit('update', { target: name, info });
+    if (this.roundUpdates) {
+      this.roundUpdates.push(name);
+    } else {
+      this.events.emit('change', { targets: [name], versions: this.getVersions() });
+    }
+  }
+}
+
+/**
+ * 创建版本检查器组的工厂函数
+ *
+ * @param options - 组配置选项
+ * @returns 版本检查器组实例
+ */
+export function createVersionCheckerGroup(options: VersionCheckerGroupOptions): VersionCheckerGroup {
+  return new VersionCheckerGroup(options);
+}
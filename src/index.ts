@@ -3,7 +3,7 @@
  * 
  * @remarks
  * 该类提供了一个自动化的版本检查机制,可以定期检查应用程序是否有新版本。
- * 支持多种版本比较策略(ETag、Last-Modified、自定义),并提供了完整的事件系统。
+ * 支持多种版本比较策略(ETag、Last-Modified、自定义、JSON 版本清单),并提供了完整的事件系统。
  * 
  * 主要功能:
  * - 自动/手动检查版本更新
@@ -38,14 +38,79 @@
  * @see {@link VersionCheckerEvent} 事件对象接口
  * @see {@link VersionCheckerEventType} 事件类型
  */
-import { VersionCheckerOptions, VersionInfo, VersionCheckerEvent, VersionCheckerEventType } from './types';
+import {
+  VersionCheckerOptions,
+  ResolvedVersionCheckerOptions,
+  VersionInfo,
+  VersionCheckerEvent,
+  VersionCheckerEventMap,
+  VersionCheckerEventType,
+  VersionCheckerListener,
+  VersionManifest,
+  VersionStorage,
+  VersionTransport,
+  PauseReason,
+  ResumeTrigger,
+  VersionCheckerStatus,
+  ReleaseMetadata,
+  ReloadGuard,
+  StaleAssetsEventPayload,
+  VersionCheckerStats
+} from './types';
+import { parseSemver, compareSemver, getUpdateSeverity } from './semver';
+import { CancelledError, DestroyedError, HttpError, TimeoutError, TransportError, parseRetryAfter } from './errors';
+import { TabCoordinator } from './coordinator';
+import { createPushTransport } from './transport';
+import { createStorage, loadVersionState, saveVersionState } from './storage';
+import { EventEmitter } from './emitter';
+import { fetchReleaseMetadata, parseReleaseMetadata, resolveReleaseNotesUrl } from './release';
+import { ReloadController } from './reload';
+import { activateWaitingWorker, resolveRegistration, updateServiceWorker } from './service-worker';
+import { watchStaleAssets } from './stale-assets';
+import { VersionRequirement, isUpdateRequired, readVersionRequirement } from './requirement';
+import { getDefaultLogger, silentLogger } from './logger';
+
+/**
+ * 构建插件注入的版本号常量
+ * @see {@link VersionCheckerOptions.useBuildVersion}
+ */
+declare const __VERSION_SENTINEL_VERSION__: string | undefined;
+
+/** 保留的历史版本标记数量 */
+const VERSION_HISTORY_LIMIT = 20;
+
+/**
+ * 一次请求、推送或跨标签页同步得到的版本数据
+ */
+interface FetchedVersion {
+  /** 版本标记 */
+  versionTag: string | null;
+  /** 版本清单,仅 json 策略或 JSON 推送消息下存在 */
+  manifest?: VersionManifest;
+  /** 服务端声明的更新要求,未提供时从版本清单中读取 */
+  requirement?: VersionRequirement | null;
+  /** 返回该版本的 CDN 节点,仅配置了 edgeHeader 时存在 */
+  edge?: string | null;
+  /** 条件请求是否命中(304) */
+  notModified?: boolean;
+  /** 本次条件请求节省的字节数,仅 GET 请求命中 304 时存在 */
+  bytesSaved?: number;
+  /** 是否由服务端推送,推送的版本无需达到确认阈值 */
+  pushed?: boolean;
+}
+
+export { CancelledError, DestroyedError, HttpError, TimeoutError, TransportError } from './errors';
+export { MemoryStorage } from './storage';
+export { EventSourceTransport, WebSocketTransport } from './transport';
+export { VersionCheckerGroup, createVersionCheckerGroup } from './group';
+export { createConsoleLogger } from './logger';
 
 export class VersionChecker {
   /** 
    * 版本检查器配置选项
    * @private
    */
-  private options: Required<VersionCheckerOptions>;
+  private options: ResolvedVersionCheckerOptions;
 
   /** 
    * 当前版本的标记
@@ -53,6 +118,34 @@ export class VersionChecker {
    */
   private versionTag: string | null = null;
 
+  /** 
+   * 当前页面实际运行的版本标记
+   * @private
+   * 
+   * @remarks
+   * 取 initialVersion、构建注入的版本或第一次获取到的版本标记。基线版本在发现更新时就会替换，
+   * 页面刷新前运行的仍是该版本，最低支持版本据此判断
+   */
+  private runningVersion: string | null = null;
+
+  /** 
+   * 已按强制更新通知过的基线版本标记
+   * @private
+   */
+  private requiredVersion: string | null = null;
+
+  /** 
+   * 已确认(不再提示)的版本标记
+   * @private
+   */
+  private acknowledgedVersions: string[] = [];
+
+  /** 
+   * 基线版本和已确认版本的存储适配器
+   * @private
+   */
+  private storage: VersionStorage;
+
   /** 
    * 定时器，用于定期检查版本
    * @private
@@ -66,24 +159,227 @@ export class VersionChecker {
   private retryCount = 0;
 
   /** 
-   * 事件监听器映射表
-   * 使用 Map 存储不同事件类型的监听器集合
+   * 上一次重试的等待时间(毫秒),用于计算 decorrelated 抖动
+   * @private
+   */
+  private lastRetryDelay = 0;
+
+  /** 
+   * 正在进行的检查,并发调用 check() 时共享
+   * @private
+   */
+  private inflightCheck: Promise<VersionInfo> | null = null;
+
+  /** 
+   * 取消当前等待(请求、重试等待、检查间隔等待或发布信息请求)的函数,stop() 时全部调用
+   * @private
+   */
+  private pendingCancels: Set<(error: Error) => void> = new Set();
+
+  /** 
+   * 上一次发起请求的时间,用于 minCheckInterval
+   * @private
+   */
+  private lastCheckTime = 0;
+
+  /** 
+   * 正在进行的检查所处的阶段,没有检查时为 null
+   * @private
+   */
+  private checkPhase: 'checking' | 'backing-off' | null = null;
+
+  /** 
+   * 是否已销毁
+   * @private
+   */
+  private destroyed = false;
+
+  /** 
+   * 最近一次通知的生命周期状态
+   * @private
+   */
+  private lastStatus: VersionCheckerStatus = 'idle';
+
+  /** 
+   * 出现过的基线版本标记,按首次出现的顺序排列,用于识别回滚
+   * @private
+   */
+  private versionHistory: string[] = [];
+
+  /** 
+   * 等待确认的新版本标记及其确认进度,没有候选版本时为 null
+   * @private
+   */
+  private candidate: { versionTag: string; consecutive: number; edges: Set<string> } | null = null;
+
+  /** 
+   * 上一次完整 GET 响应的大小(字节),用于估算 304 响应节省的流量
+   * @private
+   */
+  private lastResponseSize = 0;
+
+  /** 
+   * 条件请求累计节省的字节数
+   * @private
+   */
+  private bytesSaved = 0;
+
+  /** 
+   * 请求统计,getStats() 据此生成快照
+   * @private
+   */
+  private metrics = {
+    requests: 0,
+    successes: 0,
+    failures: 0,
+    retries: 0,
+    consecutiveFailures: 0,
+    notModified: 0,
+    totalLatency: 0,
+    lastLatency: null as number | null,
+    lastStatus: null as number | null,
+    lastSuccessTime: null as number | null
+  };
+
+  /** 
+   * 按版本缓存的发布信息
+   * @private
+   */
+  private releaseCache: Map<string, Promise<ReleaseMetadata | null>> = new Map();
+
+  /** 
+   * 刷新守卫,按名称索引
+   * @private
+   */
+  private reloadGuards: Map<string, ReloadGuard> = new Map();
+
+  /** 
+   * 自动刷新控制器,reloadPolicy 为 manual 时为 null
+   * @private
+   */
+  private reloadController: ReloadController | null = null;
+
+  /** 
+   * 已安装、等待激活的 Service Worker,reload() 时通知其激活
+   * @private
+   */
+  private waitingWorker: ServiceWorker | null = null;
+
+  /** 
+   * 自适应调度下的暂停原因,未暂停时为 null
+   * @private
+   */
+  private pauseReason: PauseReason | null = null;
+
+  /** 
+   * 自适应调度下合并即时检查的防抖定时器
+   * @private
+   */
+  private resumeCheckTimer: NodeJS.Timeout | null = null;
+
+  /** 
+   * 自适应调度下注册的页面事件监听器,用于停止时移除
+   * @private
+   */
+  private schedulingListeners: Array<{ target: EventTarget; type: string; listener: () => void }> = [];
+
+  /** 
+   * 移除过期资源检测监听的函数,未开启 detectStaleAssets 或检查器未运行时为 null
+   * @private
+   */
+  private unwatchStaleAssets: (() => void) | null = null;
+
+  /** 
+   * 跨标签页协调器,仅在开启 crossTab 且检查器运行时存在
+   * @private
+   */
+  private coordinator: TabCoordinator | null = null;
+
+  /** 
+   * 当前的推送传输,未连接或轮询模式下为 null
+   * @private
+   */
+  private pushTransport: VersionTransport | null = null;
+
+  /** 
+   * 推送连接是否正常
+   * @private
+   */
+  private pushConnected = false;
+
+  /** 
+   * 推送连接的连续重连次数
+   * @private
+   */
+  private pushReconnectCount = 0;
+
+  /** 
+   * 推送重连定时器
+   * @private
+   */
+  private pushReconnectTimer: NodeJS.Timeout | null = null;
+
+  /** 
+   * 事件发射器,监听器出错时交给 onListenerError 处理
    * @private
    */
-  private eventListeners: Map<VersionCheckerEventType, Set<Function>> = new Map();
+  private events = new EventEmitter<VersionCheckerEventMap>((error, event) => this.options.onListenerError(error, event));
 
   /** 
    * 默认配置选项
    * @private
    * @readonly
    */
-  private readonly DEFAULT_OPTIONS: Required<VersionCheckerOptions> = {
+  private readonly DEFAULT_OPTIONS: ResolvedVersionCheckerOptions = {
     checkInterval: 60000,
     versionUrl: '/',
     compareStrategy: 'etag',
+    versionField: 'version',
+    versionComparator: (currentVersion, newVersion) => newVersion !== currentVersion,
+    semver: false,
+    downgradePolicy: 'ignore',
+    adaptiveScheduling: false,
+    resumeCheckDebounce: 1000,
+    crossTab: false,
+    crossTabChannel: 'version-sentinel',
+    storage: 'memory',
+    storageKey: 'version-sentinel',
+    initialVersion: null,
+    useBuildVersion: false,
+    transport: 'polling',
+    pushReconnectTimes: 5,
+    pushReconnectInterval: 1000,
     autoStart: true,
     retryTimes: 3,
-    retryInterval: 3000
+    retryInterval: 3000,
+    retryBackoff: 'fixed',
+    maxRetryInterval: 30000,
+    retryJitter: 'none',
+    method: 'GET',
+    headers: {},
+    credentials: 'same-origin',
+    cacheBuster: false,
+    requestTimeout: 10000,
+    minCheckInterval: 0,
+    onListenerError: (error, event) => {
+      if (this.options.logger === silentLogger) {
+        console.error('Event listener error:', error);
+      } else {
+        this.options.logger.error('Event listener error', { event: event.type, error });
+      }
+    },
+    releaseMetadata: false,
+    releaseNotesHeaders: {},
+    reloadPolicy: 'manual',
+    reloadIdleTimeout: 60000,
+    onReload: () => this.reload(),
+    serviceWorker: false,
+    serviceWorkerMessage: { type: 'SKIP_WAITING' },
+    serviceWorkerTimeout: 30000,
+    detectStaleAssets: false,
+    confirmationThreshold: 1,
+    conditionalRequests: true,
+    logger: getDefaultLogger()
   };
 
   /**
@@ -94,7 +390,8 @@ export class VersionChecker {
    * @remarks
    * 构造函数会:
    * 1. 合并默认配置和用户配置
-   * 2. 如果 autoStart 为 true，自动调用 start() 方法开始版本检查
+   * 2. 从存储中恢复基线版本和已确认版本，initialVersion 和构建注入的版本优先于存储中的基线
+   * 3. 如果 autoStart 为 true，自动调用 start() 方法开始版本检查
    * 
    * @example
    * ```typescript
@@ -108,6 +405,27 @@ export class VersionChecker {
    */
   constructor(options?: VersionCheckerOptions) {
     this.options = { ...this.DEFAULT_OPTIONS, ...options };
+    this.storage = createStorage(this.options.storage);
+
+    const state = loadVersionState(this.storage, this.getStorageKey());
+    this.runningVersion = this.options.initialVersion
+      ?? (this.options.useBuildVersion ? readBuildVersion() : null);
+    this.versionTag = this.runningVersion ?? state.versionTag;
+    this.acknowledgedVersions = state.acknowledged;
+    this.recordVersion(this.versionTag);
+    if (this.versionTag !== state.versionTag) {
+      this.persistState();
+    }
+
+    if (this.options.reloadPolicy !== 'manual') {
+      this.reloadController = new ReloadController({
+        policy: this.options.reloadPolicy,
+        idleTimeout: this.options.reloadIdleTimeout,
+        guards: this.reloadGuards,
+        reload: info => this.options.onReload(info),
+        onPending: payload => this.emit('reload-pending', payload)
+      });
+    }
     
     if (this.options.autoStart) {
       this.start();
@@ -127,6 +445,7 @@ export class VersionChecker {
    * 4. 设置定时器定期执行检查
    * 
    * 如果检查器已经在运行，则该方法不会执行任何操作。
+   * 开启 adaptiveScheduling 时，页面隐藏或离线期间会跳过检查，并在恢复时立即检查。
    * 
    * @example
    * ```typescript
@@ -136,13 +455,43 @@ export class VersionChecker {
    * ```
    */
   public start(): void {
+    this.assertNotDestroyed('start');
     if (this.timer) {
       return;
     }
     
     this.emit('start');
-    this.check();
-    this.timer = setInterval(() => this.check(), this.options.checkInterval);
+    this.options.logger.debug('Checker started', {
+      versionUrl: this.options.versionUrl,
+      compareStrategy: this.options.compareStrategy,
+      checkInterval: this.options.checkInterval,
+      transport: this.options.transport,
+      crossTab: this.options.crossTab
+    });
+
+    if (this.options.adaptiveScheduling) {
+      this.attachSchedulingListeners();
+      this.pauseReason = this.getPauseReason();
+      if (this.pauseReason) {
+        this.emit('pause', { reason: this.pauseReason });
+      }
+    }
+
+    if (this.options.detectStaleAssets) {
+      this.unwatchStaleAssets = watchStaleAssets(payload => this.handleStaleAssets(payload));
+    }
+
+    if (this.options.crossTab) {
+      // 首次检查和推送连接由选举结果驱动，成为 leader 时立即检查
+      this.startCoordinator();
+    } else {
+      if (!this.pauseReason) {
+        this.check();
+      }
+      this.openPushTransport();
+    }
+    this.scheduleInterval();
+    this.updateStatus();
   }
 
   /**
@@ -154,7 +503,8 @@ export class VersionChecker {
    * 该方法会:
    * 1. 清除定时器
    * 2. 重置定时器引用
-   * 3. 触发 'stop' 事件
+   * 3. 移除自适应调度和过期资源检测的页面事件监听器
+   * 4. 触发 'stop' 事件
    * 
    * 如果检查器未在运行，则该方法不会执行任何操作。
    * 
@@ -164,209 +514,1592 @@ export class VersionChecker {
    * ```
    */
   public stop(): void {
+    this.assertNotDestroyed('stop');
+    const cancelled = new CancelledError();
+    Array.from(this.pendingCancels).forEach(cancel => cancel(cancelled));
+    this.inflightCheck = null;
+    this.checkPhase = null;
     if (this.timer) {
       clearInterval(this.timer as NodeJS.Timeout);
       this.timer = null;
+      this.detachSchedulingListeners();
+      this.unwatchStaleAssets?.();
+      this.unwatchStaleAssets = null;
+      this.coordinator?.stop();
+      this.coordinator = null;
+      this.closePushTransport();
+      this.options.logger.debug('Checker stopped');
       this.emit('stop');
     }
+    this.updateStatus();
   }
 
   /**
-   * 执行版本检查
-   * @returns 返回版本检查结果
-   * @throws 如果请求失败会抛出错误
-   */
-  public async check(): Promise<VersionInfo> {
-    try {
-      this.emit('check');
-      const response = await fetch(this.options.versionUrl, {
-        cache: 'no-cache',
-        headers: {
-          'Cache-Control': 'no-cache'
-        }
-      });
-      
-      if (!response.ok) {
-        const error = new Error(`HTTP error: ${response.status} ${response.statusText}`);
-        // 不在这里触发error事件，而是让它进入catch块统一处理
-        throw error;
-      }
-
-      // 获取版本标记
-      let newVersionTag: string | null = null;
-      switch (this.options.compareStrategy) {
-        case 'etag':
-          newVersionTag = response.headers.get('etag');
-          break;
-        case 'last-modified':
-          newVersionTag = response.headers.get('last-modified');
-          break;
-        case 'custom':
-          newVersionTag = response.headers.get('x-version') || response.headers.get('etag');
-          break;
-        default:
-          newVersionTag = response.headers.get('etag') || response.headers.get('last-modified');
-      }
-
-      // 比较版本
-      const versionInfo = this.compareVersion(newVersionTag);
-      
-      if (versionInfo.updateAvailable) {
-        this.emit('update', versionInfo);
-      }
-      
-      return versionInfo;
-    } catch (error) {
-      this.emit('error', error);
-      
-      if (this.retryCount < this.options.retryTimes) {
-        this.retryCount++;
-        this.emit('retry', { error, retryCount: this.retryCount });
-        
-        await new Promise(resolve => setTimeout(resolve, this.options.retryInterval));
-        return this.check();
-      }
-      
-      this.retryCount = 0;
-      throw error;
-    }
-  }
-
-  /**
-   * 添加事件监听器
+   * 销毁检查器
    * 
    * @public
-   * @param event - 事件类型
-   * @param callback - 事件回调函数
    * 
    * @remarks
-   * 支持的事件类型包括:
-   * - 'update': 发现新版本时触发
-   * - 'check': 执行版本检查时触发
-   * - 'error': 发生错误时触发
-   * - 'retry': 开始重试时触发
-   * - 'start': 开始版本检查时触发
-   * - 'stop': 停止版本检查时触发
+   * 停止定期检查,中止正在进行的请求和等待中的重试,在触发 'statechange' 事件后移除所有事件监听器。
+   * 销毁后再调用其他方法会抛出 DestroyedError(check() 以该错误拒绝),重复调用 destroy() 不会执行任何操作。
    * 
    * @example
    * ```typescript
-   * checker.on('update', (event) => {
-   *   console.log('发现新版本:', event.payload);
-   * });
-   * 
-   * checker.on('error', (event) => {
-   *   console.error('检查出错:', event.payload);
-   * });
+   * // 组件卸载时
+   * checker.destroy();
    * ```
    */
-  public on(event: VersionCheckerEventType, callback: Function): void {
-    if (!this.eventListeners.has(event)) {
-      this.eventListeners.set(event, new Set());
+  public destroy(): void {
+    if (this.destroyed) {
+      return;
     }
-    this.eventListeners.get(event)?.add(callback);
+    this.stop();
+    this.reloadController?.cancel();
+    this.destroyed = true;
+    this.updateStatus();
+    this.events.clear();
   }
 
   /**
-   * 移除事件监听器
+   * 获取版本检查统计快照
    * 
    * @public
-   * @param event - 事件类型
-   * @param callback - 要移除的事件回调函数
+   * @returns 请求次数、成功和失败次数、重试次数、耗时、状态码等统计
    * 
    * @remarks
-   * 该方法会从指定事件类型的监听器集合中移除指定的回调函数。
-   * 如果事件类型不存在或回调函数未注册，则不会执行任何操作。
+   * 适合定期上报到监控系统，或在 consecutiveFailures、timeSinceLastSuccess 超过阈值时告警。
+   * 每次请求完成后也会通过 'metrics' 事件携带最新的快照
    * 
    * @example
    * ```typescript
-   * const handleUpdate = (event) => {
-   *   console.log('发现新版本:', event.payload);
-   * };
-   * 
-   * // 添加监听器
-   * checker.on('update', handleUpdate);
-   * 
-   * // 移除监听器
-   * checker.off('update', handleUpdate);
+   * setInterval(() => {
+   *   const stats = checker.getStats();
+   *   telemetry.gauge('version_check.consecutive_failures', stats.consecutiveFailures);
+   * }, 60000);
    * ```
    */
-  public off(event: VersionCheckerEventType, callback: Function): void {
-    this.eventListeners.get(event)?.delete(callback);
+  public getStats(): VersionCheckerStats {
+    this.assertNotDestroyed('getStats');
+    const { totalLatency, ...metrics } = this.metrics;
+    return {
+      ...metrics,
+      bytesSaved: this.bytesSaved,
+      averageLatency: metrics.requests > 0 ? totalLatency / metrics.requests : null,
+      timeSinceLastSuccess: metrics.lastSuccessTime === null ? null : Date.now() - metrics.lastSuccessTime
+    };
   }
 
   /**
-   * 比较版本标记并生成版本信息
+   * 当前的生命周期状态
    * 
-   * @private
-   * @param newVersionTag - 新的版本标记
-   * @returns 版本信息对象
+   * @public
+   * @see {@link VersionCheckerStatus}
    */
-  private compareVersion(newVersionTag: string | null): VersionInfo {
-    const versionInfo: VersionInfo = {
-      currentVersion: this.versionTag,
-      newVersion: newVersionTag,
-      updateAvailable: false,
-      timestamp: Date.now()
-    };
-
-    if (this.versionTag === null) {
-      this.versionTag = newVersionTag;
-    } else if (newVersionTag !== null && newVersionTag !== this.versionTag) {
-      versionInfo.updateAvailable = true;
-      this.versionTag = newVersionTag;
+  public get status(): VersionCheckerStatus {
+    if (this.destroyed) {
+      return 'destroyed';
     }
-
-    return versionInfo;
+    if (this.checkPhase) {
+      return this.checkPhase;
+    }
+    if (this.timer) {
+      return this.pauseReason ? 'paused' : 'running';
+    }
+    return 'idle';
   }
 
   /**
-   * 触发事件并通知所有监听器
+   * 在生命周期状态变化时触发 'statechange' 事件
    * 
    * @private
-   * @param event - 事件类型
-   * @param payload - 事件数据
    */
-  private emit(event: VersionCheckerEventType, payload?: any): void {
-    const eventData: VersionCheckerEvent = {
-      type: event,
-      payload,
-      timestamp: Date.now()
-    };
-
-    this.eventListeners.get(event)?.forEach(callback => {
-      try {
-        callback(eventData);
-      } catch (error) {
-        console.error('Event listener error:', error);
-      }
-    });
+  private updateStatus(): void {
+    const status = this.status;
+    if (status !== this.lastStatus) {
+      const previousStatus = this.lastStatus;
+      this.lastStatus = status;
+      this.emit('statechange', { status, previousStatus });
+    }
   }
 
   /**
-   * 获取定时器状态 - 仅用于测试
-   * @internal
+   * 确保检查器未被销毁
+   * 
+   * @private
+   * @param method - 被调用的方法名
+   * @throws 已销毁时抛出 DestroyedError
    */
-  public getTimerState(): boolean {
-    return this.timer !== null;
+  private assertNotDestroyed(method: string): void {
+    if (this.destroyed) {
+      throw new DestroyedError(method);
+    }
   }
 
   /**
-   * 触发事件 - 仅用于测试
-   * @internal
+   * 设置(或重置)定期检查的定时器
+   * 
+   * @private
+   * 
+   * @remarks
+   * 暂停期间、跨标签页模式下不是 leader 时或推送连接正常时，定时器仍然存在，但不会发起检查
    */
-  public triggerEvent(event: VersionCheckerEventType, payload?: any): void {
-    this.emit(event, payload);
+  private scheduleInterval(): void {
+    if (this.timer) {
+      clearInterval(this.timer as NodeJS.Timeout);
+    }
+    this.timer = setInterval(() => {
+      if (this.shouldPoll()) {
+        this.check();
+      } else {
+        this.options.logger.debug('Skipped scheduled check', {
+          reason: this.pauseReason ?? (this.pushConnected ? 'push-connected' : 'not-leader')
+        });
+      }
+    }, this.options.checkInterval);
   }
 
   /**
-   * 获取配置选项 - 仅用于测试
-   * @internal
+   * 当前标签页是否应该发起定期检查
+   * 
+   * @private
+   */
+  private shouldPoll(): boolean {
+    return !this.pauseReason && !this.pushConnected && (!this.coordinator || this.coordinator.isLeader);
+  }
+
+  /**
+   * 加入跨标签页选举
+   * 
+   * @private
+   * 
+   * @remarks
+   * 成为 leader 时立即检查一次；作为 follower 时，用 leader 广播的版本标记在本地比较版本并触发事件。
+   * leader 补发的数据可能已过时，没有基线版本时不用它作为基线，而是自行检查一次
+   */
+  private startCoordinator(): void {
+    this.coordinator = new TabCoordinator({
+      channelName: `${this.options.crossTabChannel}:${this.options.versionUrl}`,
+      onLeadershipChange: isLeader => {
+        if (!isLeader) {
+          this.closePushTransport();
+          return;
+        }
+        if (!this.pauseReason) {
+          this.check().catch(() => {
+            // 错误已通过 error 事件通知
+          });
+          this.scheduleInterval();
+        }
+        this.openPushTransport();
+      },
+      onData: (data, replayed) => {
+        if (replayed && this.versionTag === null) {
+          if (!this.pauseReason) {
+            this.check().catch(() => {
+              // 错误已通过 error 事件通知
+            });
+          }
+          return;
+        }
+        this.applyReceivedVersion(data as FetchedVersion);
+      }
+    });
+    // 暂停中的标签页不参与选举，避免后台标签页占据 leader 导致无人检查
+    this.coordinator.setEligible(!this.pauseReason);
+    this.coordinator.start();
+  }
+
+  /**
+   * 建立推送连接
+   * 
+   * @private
+   * 
+   * @remarks
+   * 轮询模式或已有连接时不执行任何操作。环境不支持 EventSource / WebSocket 或推送地址非法导致无法建立连接时，
+   * 按连接断开处理，期间回退到轮询
+   */
+  private openPushTransport(): void {
+    if (this.pushTransport) {
+      return;
+    }
+
+    let transport: VersionTransport | null;
+    try {
+      transport = createPushTransport(this.options.transport, this.options.pushUrl || this.options.versionUrl);
+      if (!transport) {
+        return;
+      }
+      this.pushTransport = transport;
+      this.connectPushTransport(transport);
+    } catch (error) {
+      this.handlePushClose(error);
+    }
+  }
+
+  /**
+   * 连接推送传输并注册回调
+   * 
+   * @private
+   * @param transport - 推送传输
+   */
+  private connectPushTransport(transport: VersionTransport): void {
+    transport.connect({
+      onOpen: () => {
+        this.pushConnected = true;
+        this.pushReconnectCount = 0;
+        this.options.logger.info('Push transport connected', { transport: this.options.transport });
+        this.emit('connect');
+      },
+      onMessage: data => this.handlePushMessage(data),
+      onClose: reason => {
+        // 忽略主动关闭后才到达的断开通知
+        if (this.pushTransport === transport) {
+          this.handlePushClose(reason);
+        }
+      }
+    });
+  }
+
+  /**
+   * 关闭推送连接并取消重连
+   * 
+   * @private
+   */
+  private closePushTransport(): void {
+    if (this.pushReconnectTimer) {
+      clearTimeout(this.pushReconnectTimer);
+      this.pushReconnectTimer = null;
+    }
+    const transport = this.pushTransport;
+    this.pushTransport = null;
+    this.pushConnected = false;
+    this.pushReconnectCount = 0;
+    transport?.close();
+  }
+
+  /**
+   * 处理推送连接断开
+   * 
+   * @private
+   * @param reason - 断开原因
+   * 
+   * @remarks
+   * 断开期间回退到轮询，并按指数退避重连；超过 pushReconnectTimes 次后放弃重连
+   */
+  private handlePushClose(reason: unknown): void {
+    this.pushTransport = null;
+    this.pushConnected = false;
+
+    if (this.pushReconnectCount >= this.options.pushReconnectTimes) {
+      this.options.logger.error('Push transport failed, falling back to polling', { reason });
+      this.emit('disconnect', { reason, willReconnect: false });
+      this.emit('error', new TransportError('Push transport failed, falling back to polling', reason));
+      return;
+    }
+
+    this.pushReconnectCount++;
+    const delay = Math.min(
+      this.options.maxRetryInterval,
+      this.options.pushReconnectInterval * Math.pow(2, this.pushReconnectCount - 1)
+    );
+    this.options.logger.warn('Push transport disconnected, reconnecting', {
+      reason,
+      attempt: this.pushReconnectCount,
+      delay
+    });
+    this.emit('disconnect', { reason, willReconnect: true, attempt: this.pushReconnectCount, delay });
+    this.pushReconnectTimer = setTimeout(() => {
+      this.pushReconnectTimer = null;
+      this.openPushTransport();
+    }, delay);
+  }
+
+  /**
+   * 处理推送的版本消息
+   * 
+   * @private
+   * @param data - 消息内容，可以是版本号字符串或 JSON 版本清单
+   */
+  private handlePushMessage(data: string): void {
+    let versionTag: string | null = data.trim() || null;
+    let manifest: VersionManifest | undefined;
+
+    try {
+      const parsed: unknown = JSON.parse(data);
+      if (parsed !== null && typeof parsed === 'object') {
+        manifest = parsed as VersionManifest;
+        const value = getFieldByPath(manifest, this.options.versionField);
+        versionTag = typeof value === 'string' || typeof value === 'number' ? String(value) : null;
+      } else if (typeof parsed === 'string' || typeof parsed === 'number') {
+        versionTag = String(parsed);
+      }
+    } catch {
+      // 非 JSON 消息直接作为版本号
+    }
+
+    if (versionTag === null) {
+      return;
+    }
+
+    const fetched: FetchedVersion = { versionTag, manifest, pushed: true };
+    this.applyReceivedVersion(fetched);
+    this.coordinator?.broadcast(fetched);
+  }
+
+  /**
+   * 比较推送或跨标签页同步得到的版本
+   * 
+   * @private
+   * @param fetched - 推送或其他标签页广播的版本数据
+   * 
+   * @remarks
+   * 不在检查流程中，比较出错(如 versionComparator 抛出异常)时直接触发 'error' 事件
+   */
+  private applyReceivedVersion(fetched: FetchedVersion): void {
+    this.applyVersion(fetched).catch(error => {
+      this.emit('error', error);
+    });
+  }
+
+  /**
+   * 注册自适应调度所需的页面事件监听器
+   * 
+   * @private
+   */
+  private attachSchedulingListeners(): void {
+    const listen = (target: EventTarget | undefined, type: string, listener: () => void) => {
+      if (target) {
+        target.addEventListener(type, listener);
+        this.schedulingListeners.push({ target, type, listener });
+      }
+    };
+    const doc = typeof document !== 'undefined' ? document : undefined;
+    const win = typeof window !== 'undefined' ? window : undefined;
+
+    listen(doc, 'visibilitychange', () => this.handleSchedulingEvent(
+      doc?.visibilityState === 'hidden' ? null : 'visible'
+    ));
+    listen(win, 'online', () => this.handleSchedulingEvent('online'));
+    listen(win, 'offline', () => this.handleSchedulingEvent(null));
+    listen(win, 'focus', () => this.handleSchedulingEvent('focus'));
+  }
+
+  /**
+   * 移除自适应调度的页面事件监听器并重置暂停状态
+   * 
+   * @private
+   */
+  private detachSchedulingListeners(): void {
+    this.schedulingListeners.forEach(({ target, type, listener }) => {
+      target.removeEventListener(type, listener);
+    });
+    this.schedulingListeners = [];
+    this.pauseReason = null;
+    this.cancelResumeCheck();
+  }
+
+  /**
+   * 处理代码块加载失败，触发 'stale-assets' 事件并立即检查
+   * 
+   * @private
+   * @param payload - 代码块加载失败的信息
+   * 
+   * @remarks
+   * 页面隐藏或离线导致的暂停不影响这次检查；检查进行中时复用正在进行的检查
+   */
+  private handleStaleAssets(payload: StaleAssetsEventPayload): void {
+    this.emit('stale-assets', payload);
+    this.check().catch(() => {
+      // 错误已通过 error 事件通知
+    });
+  }
+
+  /**
+   * 处理页面可见性、网络状态和焦点变化
+   * 
+   * @private
+   * @param trigger - 触发即时检查的原因,为 null 时只更新暂停状态
+   */
+  private handleSchedulingEvent(trigger: ResumeTrigger | null): void {
+    const reason = this.getPauseReason();
+
+    if (reason) {
+      if (!this.pauseReason) {
+        this.cancelResumeCheck();
+        this.coordinator?.setEligible(false);
+        this.options.logger.info('Checks paused', { reason });
+        this.emit('pause', { reason });
+      }
+      this.pauseReason = reason;
+      this.updateStatus();
+      return;
+    }
+
+    if (this.pauseReason) {
+      this.pauseReason = null;
+      this.coordinator?.setEligible(true);
+      this.options.logger.info('Checks resumed', { reason: trigger ?? 'visible' });
+      this.emit('resume', { reason: trigger ?? 'visible' });
+      this.updateStatus();
+      this.scheduleResumeCheck();
+    } else if (trigger) {
+      this.scheduleResumeCheck();
+    }
+  }
+
+  /**
+   * 获取当前应暂停检查的原因
+   * 
+   * @private
+   * @returns 页面隐藏返回 'hidden',离线返回 'offline',否则返回 null
+   */
+  private getPauseReason(): PauseReason | null {
+    if (typeof document !== 'undefined' && document.visibilityState === 'hidden') {
+      return 'hidden';
+    }
+    if (typeof navigator !== 'undefined' && navigator.onLine === false) {
+      return 'offline';
+    }
+    return null;
+  }
+
+  /**
+   * 防抖地安排一次即时检查,并重置定期检查的定时器
+   * 
+   * @private
+   */
+  private scheduleResumeCheck(): void {
+    this.cancelResumeCheck();
+    this.resumeCheckTimer = setTimeout(() => {
+      this.resumeCheckTimer = null;
+      if (!this.shouldPoll()) {
+        return;
+      }
+      this.check().catch(() => {
+        // 错误已通过 error 事件通知
+      });
+      this.scheduleInterval();
+    }, this.options.resumeCheckDebounce);
+  }
+
+  /**
+   * 取消尚未执行的即时检查
+   * 
+   * @private
+   */
+  private cancelResumeCheck(): void {
+    if (this.resumeCheckTimer) {
+      clearTimeout(this.resumeCheckTimer);
+      this.resumeCheckTimer = null;
+    }
+  }
+
+  /**
+   * 执行版本检查
+   * @returns 返回版本检查结果
+   * @throws 如果请求失败会抛出错误,检查被 stop() 取消时抛出 CancelledError
+   * 
+   * @remarks
+   * 上一次检查(包括其重试)尚未结束时再次调用,会直接返回同一个 Promise 而不会发起新的请求
+   */
+  public check(): Promise<VersionInfo> {
+    if (this.destroyed) {
+      return Promise.reject(new DestroyedError('check'));
+    }
+    if (!this.inflightCheck) {
+      const inflight = this.runCheck();
+      this.inflightCheck = inflight;
+      const clear = () => {
+        if (this.inflightCheck === inflight) {
+          this.inflightCheck = null;
+          this.checkPhase = null;
+          this.updateStatus();
+        }
+      };
+      inflight.then(clear, clear);
+    }
+    return this.inflightCheck;
+  }
+
+  /**
+   * 执行一次检查及其重试
+   * 
+   * @private
+   * @returns 版本检查结果
+   */
+  private async runCheck(): Promise<VersionInfo> {
+    this.checkPhase = 'checking';
+    this.updateStatus();
+    try {
+      const wait = this.lastCheckTime + this.options.minCheckInterval - Date.now();
+      if (wait > 0) {
+        this.options.logger.debug('Delaying check to respect minCheckInterval', { wait });
+        await this.sleep(wait);
+      }
+      this.lastCheckTime = Date.now();
+
+      this.emit('check', { conditional: this.getConditionalHeaders() !== null, bytesSaved: this.bytesSaved });
+      // 获取版本标记
+      const fetched = await this.fetchVersion();
+
+      // 比较版本
+      const versionInfo = await this.applyVersion(fetched);
+      // 节省的字节数只属于发出请求的标签页
+      this.coordinator?.broadcast({ ...fetched, bytesSaved: undefined });
+      
+      this.resetRetryState();
+      return versionInfo;
+    } catch (error) {
+      if (error instanceof CancelledError) {
+        this.resetRetryState();
+        throw error;
+      }
+
+      this.emit('error', error);
+      
+      if (this.retryCount < this.options.retryTimes) {
+        this.retryCount++;
+        const delay = this.getRetryDelay(error);
+        this.lastRetryDelay = delay;
+        this.metrics.retries++;
+        this.options.logger.warn('Retrying version check', { retryCount: this.retryCount, delay, error });
+        this.emit('retry', {
+          error,
+          retryCount: this.retryCount,
+          attempt: this.retryCount + 1,
+          delay
+        });
+        
+        this.checkPhase = 'backing-off';
+        this.updateStatus();
+        try {
+          await this.sleep(delay);
+        } catch (cancelled) {
+          this.resetRetryState();
+          throw cancelled;
+        }
+        return this.runCheck();
+      }
+      
+      this.options.logger.error('Version check failed', { retries: this.retryCount, error });
+      this.resetRetryState();
+      throw error;
+    }
+  }
+
+  /**
+   * 等待指定时间,可被 stop() 取消
+   * 
+   * @private
+   * @param delay - 等待时间(毫秒)
+   */
+  private sleep(delay: number): Promise<void> {
+    let sleepTimer: NodeJS.Timeout | null = null;
+    const task = new Promise<void>(resolve => {
+      sleepTimer = setTimeout(resolve, delay);
+    });
+    return this.cancellable(task, () => {
+      if (sleepTimer) {
+        clearTimeout(sleepTimer);
+      }
+    });
+  }
+
+  /**
+   * 把任务包装为可被 stop() 取消的任务
+   * 
+   * @private
+   * @param task - 原始任务
+   * @param onCancel - 取消时执行的清理,如中止请求
+   * @returns 任务完成时完成,被取消时以 CancelledError 失败
+   */
+  private cancellable<T>(task: Promise<T>, onCancel: () => void): Promise<T> {
+    // 取消后原始任务的失败不再有人处理
+    task.catch(() => undefined);
+    return new Promise<T>((resolve, reject) => {
+      const cancel = (error: Error) => {
+        this.pendingCancels.delete(cancel);
+        onCancel();
+        reject(error);
+      };
+      const settle = () => {
+        this.pendingCancels.delete(cancel);
+      };
+      this.pendingCancels.add(cancel);
+      task.then(
+        value => {
+          settle();
+          resolve(value);
+        },
+        error => {
+          settle();
+          reject(error);
+        }
+      );
+    });
+  }
+
+  /**
+   * 为请求加上 requestTimeout 超时,并包装为可被 stop() 取消的任务
+   * 
+   * @private
+   * @param task - 原始请求
+   * @param controller - 超时或取消时用于中止请求的控制器
+   * @returns 请求完成时完成,超时时以 TimeoutError 失败,被取消时以 CancelledError 失败
+   */
+  private withTimeout<T>(task: Promise<T>, controller: AbortController | null): Promise<T> {
+    const { requestTimeout } = this.options;
+    let timeoutTimer: NodeJS.Timeout | null = null;
+    const timeout = requestTimeout > 0
+      ? new Promise<never>((_, reject) => {
+        timeoutTimer = setTimeout(() => {
+          controller?.abort();
+          reject(new TimeoutError(requestTimeout));
+        }, requestTimeout);
+      })
+      : null;
+
+    const result = this.cancellable(timeout ? Promise.race([task, timeout]) : task, () => controller?.abort());
+    const clear = () => {
+      if (timeoutTimer) {
+        clearTimeout(timeoutTimer);
+      }
+    };
+    result.then(clear, clear);
+    return result;
+  }
+
+  /**
+   * 请求版本地址并提取版本标记
+   * 
+   * @private
+   * @returns 版本标记、版本清单、服务端声明的更新要求和返回版本的 CDN 节点
+   * @throws 响应非 2xx 时抛出 HttpError,超过 requestTimeout 时抛出 TimeoutError
+   * 
+   * @remarks
+   * 超时计时覆盖等待响应和读取响应体两个阶段,超时或调用 stop() 时通过 AbortController 中止请求。
+   * 条件请求得到 304 时直接返回请求时的版本标记
+   */
+  private async fetchVersion(): Promise<FetchedVersion> {
+    const { edgeHeader } = this.options;
+    const controller = typeof AbortController !== 'undefined' ? new AbortController() : null;
+
+    const startTime = Date.now();
+    let status: number | null = null;
+
+    const request = (async (): Promise<FetchedVersion> => {
+      const sentVersionTag = this.versionTag;
+      const init = this.getRequestInit(controller?.signal);
+      const url = this.getRequestUrl();
+      this.options.logger.debug('Sending version request', {
+        url,
+        method: init.method,
+        conditional: this.getConditionalHeaders() !== null
+      });
+      const response = await fetch(url, init);
+      status = response.status;
+
+      if (response.status === 304) {
+        const notModified: FetchedVersion = {
+          versionTag: sentVersionTag,
+          notModified: true,
+          requirement: readVersionRequirement(undefined, response.headers)
+        };
+        if (init.method === 'GET') {
+          this.bytesSaved += this.lastResponseSize;
+          notModified.bytesSaved = this.lastResponseSize;
+        }
+        return notModified;
+      }
+
+      if (!response.ok) {
+        const retryAfter = response.status === 429 || response.status === 503
+          ? parseRetryAfter(response.headers.get('retry-after'))
+          : null;
+        const error = new HttpError(response.status, response.statusText, retryAfter);
+        // 不在这里触发error事件，而是让它进入catch块统一处理
+        throw error;
+      }
+
+      if (init.method === 'GET') {
+        this.lastResponseSize = Number(response.headers.get('content-length')) || 0;
+      }
+
+      const { versionTag, manifest } = await this.extractVersion(response);
+      this.options.logger.debug('Extracted version', {
+        compareStrategy: this.options.compareStrategy,
+        versionTag,
+        manifest: manifest !== undefined
+      });
+      return {
+        versionTag,
+        manifest,
+        requirement: readVersionRequirement(manifest, response.headers),
+        edge: edgeHeader ? response.headers.get(edgeHeader) : null
+      };
+    })();
+
+    try {
+      const fetched = await this.withTimeout(request, controller);
+      this.recordRequest(startTime, status, { notModified: fetched.notModified === true });
+      return fetched;
+    } catch (error) {
+      if (!(error instanceof CancelledError)) {
+        this.recordRequest(startTime, status, { error });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * 记录一次完成的请求并触发 'metrics' 事件
+   * 
+   * @private
+   * @param startTime - 请求开始的时间戳
+   * @param status - HTTP 状态码，未收到响应时为 null
+   * @param result - 成功时为条件请求是否命中，失败时为失败的原因
+   */
+  private recordRequest(
+    startTime: number,
+    status: number | null,
+    result: { notModified: boolean } | { error: unknown }
+  ): void {
+    const metrics = this.metrics;
+    const latency = Date.now() - startTime;
+    const success = !('error' in result);
+
+    metrics.requests++;
+    metrics.totalLatency += latency;
+    metrics.lastLatency = latency;
+    metrics.lastStatus = status;
+    if ('error' in result) {
+      metrics.failures++;
+      metrics.consecutiveFailures++;
+      this.options.logger.warn('Version request failed', { status, latency, error: result.error });
+    } else {
+      metrics.successes++;
+      metrics.consecutiveFailures = 0;
+      metrics.lastSuccessTime = Date.now();
+      if (result.notModified) {
+        metrics.notModified++;
+      }
+      this.options.logger.debug('Version request completed', { status, latency, notModified: result.notModified });
+    }
+
+    this.emit('metrics', {
+      latency,
+      status,
+      success,
+      ...('error' in result ? { error: result.error } : {}),
+      stats: this.getStats()
+    });
+  }
+
+  /**
+   * 获取版本检查请求的地址
+   * 
+   * @private
+   * @returns 开启 cacheBuster 时附加时间戳参数的地址
+   */
+  private getRequestUrl(): string {
+    const { versionUrl, cacheBuster } = this.options;
+    if (!cacheBuster) {
+      return versionUrl;
+    }
+
+    const param = typeof cacheBuster === 'string' ? cacheBuster : '_t';
+    const hashIndex = versionUrl.indexOf('#');
+    const url = hashIndex === -1 ? versionUrl : versionUrl.slice(0, hashIndex);
+    const hash = hashIndex === -1 ? '' : versionUrl.slice(hashIndex);
+    const separator = url.includes('?') ? '&' : '?';
+    return `${url}${separator}${encodeURIComponent(param)}=${Date.now()}${hash}`;
+  }
+
+  /**
+   * 获取版本检查请求的配置
+   * 
+   * @private
+   * @param signal - 用于中止请求的信号
+   * @returns fetch 请求配置
+   */
+  private getRequestInit(signal?: AbortSignal): RequestInit {
+    const { method, headers, credentials, compareStrategy } = this.options;
+    const conditionalHeaders = this.getConditionalHeaders();
+    return {
+      method: compareStrategy === 'json' ? 'GET' : method,
+      // 自行携带条件请求头时绕过浏览器缓存，确保 304 响应原样返回
+      cache: conditionalHeaders ? 'no-store' : 'no-cache',
+      credentials,
+      headers: {
+        'Cache-Control': 'no-cache',
+        ...conditionalHeaders,
+        ...headers
+      },
+      signal
+    };
+  }
+
+  /**
+   * 获取条件请求头
+   * 
+   * @private
+   * @returns 以当前版本标记作为校验值的请求头，未开启 conditionalRequests、没有基线版本或策略不支持时返回 null
+   */
+  private getConditionalHeaders(): Record<string, string> | null {
+    const { conditionalRequests, compareStrategy } = this.options;
+    if (!conditionalRequests || this.versionTag === null) {
+      return null;
+    }
+
+    switch (compareStrategy) {
+      case 'etag':
+        return { 'If-None-Match': this.versionTag };
+      case 'last-modified':
+        return { 'If-Modified-Since': this.versionTag };
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * 计算下一次重试前的等待时间
+   * 
+   * @private
+   * @param error - 本次检查失败的错误
+   * @returns 等待时间(毫秒)
+   * 
+   * @remarks
+   * 429/503 响应携带 Retry-After 时直接使用服务端要求的等待时间,
+   * 否则按 retryBackoff 计算基础间隔,再按 retryJitter 加入随机抖动。
+   */
+  private getRetryDelay(error: unknown): number {
+    if (error instanceof HttpError && error.retryAfter !== null) {
+      return error.retryAfter;
+    }
+
+    const { retryInterval, retryBackoff, maxRetryInterval, retryJitter } = this.options;
+
+    if (retryJitter === 'decorrelated') {
+      const previous = this.lastRetryDelay || retryInterval;
+      return Math.min(maxRetryInterval, randomBetween(retryInterval, previous * 3));
+    }
+
+    const delay = retryBackoff === 'exponential'
+      ? Math.min(maxRetryInterval, retryInterval * Math.pow(2, this.retryCount - 1))
+      : retryInterval;
+
+    return retryJitter === 'full' ? randomBetween(0, delay) : delay;
+  }
+
+  /**
+   * 重置重试状态
+   * 
+   * @private
+   */
+  private resetRetryState(): void {
+    this.retryCount = 0;
+    this.lastRetryDelay = 0;
+  }
+
+  /**
+   * 确认版本
+   * 
+   * @public
+   * @param version - 要确认的版本标记，默认为当前基线版本
+   * 
+   * @remarks
+   * 已确认的版本会写入存储，之后再检测到该版本时不会触发 'update' 事件，
+   * 适合在用户关闭更新提示或刷新页面前调用，避免同一版本在每个标签页重复提示。
+   * 强制更新(requirement 为 'required')不受确认影响，仍会触发 'update' 和 'update-required' 事件。
+   * 
+   * @example
+   * ```typescript
+   * checker.on('update', (event) => {
+   *   if (!confirm('发现新版本，是否刷新?')) {
+   *     checker.acknowledge(event.payload.newVersion);
+   *   }
+   * });
+   * ```
+   */
+  public acknowledge(version: string | null = this.versionTag): void {
+    this.assertNotDestroyed('acknowledge');
+    if (version === null || this.acknowledgedVersions.includes(version)) {
+      return;
+    }
+    this.acknowledgedVersions.push(version);
+    this.persistState();
+    if (this.reloadController?.pendingVersion === version) {
+      this.reloadController.cancel();
+    }
+  }
+
+  /**
+   * 注册刷新守卫
+   * 
+   * @public
+   * @param name - 守卫名称，会出现在 'reload-pending' 事件的 blockedBy 中；同名守卫会被替换
+   * @param guard - 守卫函数，返回 false 时否决本次自动刷新
+   * @returns 移除守卫的函数
+   * 
+   * @remarks
+   * 守卫在每次尝试自动刷新前调用。被否决的刷新会在刷新策略下一次触发时重试，
+   * 也可以在守卫条件解除后调用 attemptReload() 立即重试。
+   * 
+   * @example
+   * ```typescript
+   * const removeGuard = checker.addReloadGuard('unsaved-form', () => !form.isDirty);
+   * 
+   * form.on('saved', () => checker.attemptReload());
+   * ```
+   */
+  public addReloadGuard(name: string, guard: ReloadGuard): () => void {
+    this.assertNotDestroyed('addReloadGuard');
+    this.reloadGuards.set(name, guard);
+    return () => {
+      if (this.reloadGuards.get(name) === guard) {
+        this.reloadGuards.delete(name);
+      }
+    };
+  }
+
+  /**
+   * 立即尝试执行等待中的自动刷新
+   * 
+   * @public
+   * @returns 是否执行了刷新；没有等待中的刷新或被守卫否决时返回 false
+   */
+  public attemptReload(): boolean {
+    this.assertNotDestroyed('attemptReload');
+    return this.reloadController?.attempt() ?? false;
+  }
+
+  /**
+   * 刷新页面以加载新版本
+   * 
+   * @public
+   * 
+   * @remarks
+   * 开启 serviceWorker 且有已安装、等待激活的 worker 时，先向其发送 serviceWorkerMessage，
+   * 在新的 worker 接管页面(controllerchange)后再刷新，避免刷新后仍由旧的 worker 提供资源。
+   * 超过 serviceWorkerTimeout 仍未接管(如 worker 没有处理该消息)，或 worker 已被其他标签页激活时直接刷新；
+   * 否则直接刷新页面。默认的 onReload 和更新提示的"立即刷新"都会调用该方法
+   * 
+   * @example
+   * ```typescript
+   * checker.on('update', () => {
+   *   if (confirm('发现新版本，是否刷新？')) {
+   *     checker.reload();
+   *   }
+   * });
+   * ```
+   */
+  public reload(): void {
+    this.assertNotDestroyed('reload');
+    const worker = this.waitingWorker;
+    if (worker && typeof navigator !== 'undefined' && navigator.serviceWorker) {
+      this.waitingWorker = null;
+      activateWaitingWorker(
+        worker,
+        this.options.serviceWorkerMessage,
+        () => location.reload(),
+        this.options.serviceWorkerTimeout
+      );
+    } else {
+      location.reload();
+    }
+  }
+
+  /**
+   * 通知发生了 SPA 路由切换
+   * 
+   * @public
+   * 
+   * @remarks
+   * 仅在 reloadPolicy 为 'route-change' 时生效。popstate 和 hashchange 会自动处理，
+   * 通过 history.pushState 切换路由时需要在路由钩子中调用。
+   * 
+   * @example
+   * ```typescript
+   * router.afterEach(() => checker.notifyRouteChange());
+   * ```
+   */
+  public notifyRouteChange(): void {
+    this.assertNotDestroyed('notifyRouteChange');
+    this.reloadController?.notifyRouteChange();
+  }
+
+  /**
+   * 添加事件监听器
+   * 
+   * @public
+   * @param event - 事件类型,'*' 表示监听所有事件
+   * @param callback - 事件回调函数,event.payload 的类型根据事件类型推断
+   * @returns 取消监听的函数
+   * 
+   * @remarks
+   * 支持的事件类型包括:
+   * - 'update': 发现新版本时触发
+   * - 'version': 获取到服务端版本时触发(轮询、推送或跨标签页同步)
+   * - 'check': 执行版本检查、发起请求前触发
+   * - 'error': 发生错误时触发
+   * - 'retry': 开始重试时触发
+   * - 'start': 开始版本检查时触发
+   * - 'stop': 停止版本检查时触发
+   * - 'downgrade': semver 模式下检测到版本降级时触发
+   * - 'pause': 自适应调度下因页面隐藏或离线暂停检查时触发
+   * - 'resume': 自适应调度下恢复检查时触发
+   * - 'connect': 推送连接建立时触发
+   * - 'disconnect': 推送连接断开时触发
+   * - 'statechange': 生命周期状态变化时触发
+   * - 'reload-pending': 安排了自动刷新或自动刷新被守卫推迟时触发
+   * - 'update-required': 发现强制更新时触发
+   * - 'rollback': 回到出现过的旧版本标记时触发
+   * - 'stale-assets': 检测到代码块加载失败时触发
+   * - 'metrics': 每次请求完成后触发,携带耗时、状态码和统计快照
+   * 
+   * 通配符监听器在对应事件的监听器之后调用。监听器抛出的异常和异步监听器被拒绝的 Promise
+   * 都交给 onListenerError 处理,不会影响其他监听器。
+   * 
+   * @example
+   * ```typescript
+   * checker.on('update', (event) => {
+   *   console.log('发现新版本:', event.payload);
+   * });
+   * 
+   * const unsubscribe = checker.on('error', (event) => {
+   *   console.error('检查出错:', event.payload);
+   * });
+   * unsubscribe();
+   * 
+   * checker.on('*', (event) => {
+   *   console.log(event.type, event.payload);
+   * });
+   * ```
+   */
+  public on<K extends VersionCheckerEventType>(event: K, callback: VersionCheckerListener<K>): () => void;
+  public on(event: '*', callback: VersionCheckerListener): () => void;
+  public on(event: VersionCheckerEventType | '*', callback: VersionCheckerListener<any>): () => void {
+    this.assertNotDestroyed('on');
+    return this.events.add(event, callback, false);
+  }
+
+  /**
+   * 添加只触发一次的事件监听器
+   * 
+   * @public
+   * @param event - 事件类型,'*' 表示下一次触发的任意事件
+   * @param callback - 事件回调函数
+   * @returns 取消监听的函数
+   * 
+   * @example
+   * ```typescript
+   * checker.once('update', (event) => {
+   *   console.log('首次发现新版本:', event.payload.newVersion);
+   * });
+   * ```
+   */
+  public once<K extends VersionCheckerEventType>(event: K, callback: VersionCheckerListener<K>): () => void;
+  public once(event: '*', callback: VersionCheckerListener): () => void;
+  public once(event: VersionCheckerEventType | '*', callback: VersionCheckerListener<any>): () => void {
+    this.assertNotDestroyed('once');
+    return this.events.add(event, callback, true);
+  }
+
+  /**
+   * 移除事件监听器
+   * 
+   * @public
+   * @param event - 事件类型
+   * @param callback - 要移除的事件回调函数
+   * 
+   * @remarks
+   * 该方法会从指定事件类型的监听器集合中移除指定的回调函数,也可以移除通过 once() 添加的监听器。
+   * 如果事件类型不存在或回调函数未注册，则不会执行任何操作。
+   * 
+   * @example
+   * ```typescript
+   * const handleUpdate = (event) => {
+   *   console.log('发现新版本:', event.payload);
+   * };
+   * 
+   * // 添加监听器
+   * checker.on('update', handleUpdate);
+   * 
+   * // 移除监听器
+   * checker.off('update', handleUpdate);
+   * ```
+   */
+  public off<K extends VersionCheckerEventType>(event: K, callback: VersionCheckerListener<K>): void;
+  public off(event: '*', callback: VersionCheckerListener): void;
+  public off(event: VersionCheckerEventType | '*', callback: VersionCheckerListener<any>): void {
+    this.assertNotDestroyed('off');
+    this.events.remove(event, callback);
+  }
+
+  /**
+   * 根据比较策略从响应中提取版本标记
+   * 
+   * @private
+   * @param response - 版本检查请求的响应
+   * @returns 版本标记,以及 json 策略下解析得到的版本清单
+   */
+  private async extractVersion(response: Response): Promise<{ versionTag: string | null; manifest?: VersionManifest }> {
+    switch (this.options.compareStrategy) {
+      case 'etag':
+        return { versionTag: response.headers.get('etag') };
+      case 'last-modified':
+        return { versionTag: response.headers.get('last-modified') };
+      case 'custom':
+        if (this.options.versionExtractor) {
+          return { versionTag: await this.options.versionExtractor(response) };
+        }
+        return { versionTag: response.headers.get('x-version') || response.headers.get('etag') };
+      case 'json': {
+        const body: unknown = await response.json();
+        if (body === null || typeof body !== 'object') {
+          throw new Error('Invalid version manifest: expected a JSON object');
+        }
+        const manifest = body as VersionManifest;
+        const value = getFieldByPath(manifest, this.options.versionField);
+        const versionTag = typeof value === 'string' || typeof value === 'number' ? String(value) : null;
+        return { versionTag, manifest };
+      }
+      default:
+        return { versionTag: response.headers.get('etag') || response.headers.get('last-modified') };
+    }
+  }
+
+  /**
+   * 比较版本标记，触发 'version' 事件，发现更新时触发 'update' 事件，回到历史版本时触发 'rollback' 事件
+   * 
+   * @private
+   * @param fetched - 请求、推送或跨标签页同步得到的版本数据
+   * @returns 版本信息对象
+   * 
+   * @remarks
+   * 开启 releaseMetadata 且发现更新时，先读取发布信息再触发事件，读取受 requestTimeout 限制且可被 stop() 中断；
+   * 开启 serviceWorker 且发现未确认的更新时，先等待新的 Service Worker 安装完成(最长 serviceWorkerTimeout)再触发事件；
+   * 都未开启时同步触发事件。强制更新不受 acknowledge() 影响，在 'update' 之后触发 'update-required'
+   */
+  private async applyVersion(fetched: FetchedVersion): Promise<VersionInfo> {
+    const { versionTag: newVersionTag, manifest } = fetched;
+    const versionInfo = this.compareVersion(fetched);
+    const required = versionInfo.requirement === 'required';
+    const acknowledged = !required && newVersionTag !== null && this.acknowledgedVersions.includes(newVersionTag);
+    if (this.options.releaseMetadata && versionInfo.updateAvailable && newVersionTag !== null) {
+      const release = await this.getReleaseMetadata(newVersionTag, manifest);
+      if (release) {
+        versionInfo.release = release;
+      }
+    }
+    if (this.options.serviceWorker && versionInfo.updateAvailable && !acknowledged) {
+      const ready = await this.prepareServiceWorker();
+      if (ready !== null) {
+        versionInfo.serviceWorkerReady = ready;
+      }
+    }
+    if (this.destroyed) {
+      // 等待期间检查器已被销毁，不再通知或安排刷新
+      return versionInfo;
+    }
+    this.emit('version', versionInfo);
+
+    if (versionInfo.unconfirmed) {
+      this.options.logger.debug('New version awaiting confirmation', {
+        currentVersion: versionInfo.currentVersion,
+        newVersion: newVersionTag,
+        edge: fetched.edge ?? null
+      });
+    }
+
+    if (versionInfo.rollback) {
+      this.options.logger.warn('Version rolled back', {
+        currentVersion: versionInfo.currentVersion,
+        newVersion: newVersionTag
+      });
+      // 等待刷新的版本已被撤回
+      this.reloadController?.cancel();
+      this.emit('rollback', versionInfo);
+    }
+    
+    if (versionInfo.updateAvailable) {
+      this.options.logger.info('Update detected', {
+        currentVersion: versionInfo.currentVersion,
+        newVersion: newVersionTag,
+        requirement: versionInfo.requirement,
+        acknowledged
+      });
+      if (acknowledged) {
+        versionInfo.acknowledged = true;
+      } else {
+        this.emit('update', versionInfo);
+        if (required) {
+          this.emit('update-required', versionInfo);
+        }
+        this.reloadController?.schedule(versionInfo);
+      }
+    }
+
+    return versionInfo;
+  }
+
+  /**
+   * 读取新版本的发布信息
+   * 
+   * @private
+   * @param version - 新版本标记
+   * @param manifest - 版本清单
+   * @returns 发布信息，读取失败或未提供时返回 null
+   * 
+   * @remarks
+   * 结果按版本缓存；请求更新日志失败或超过 requestTimeout 时触发 'error' 事件且不缓存，下次发现该版本时重新请求。
+   * 请求被 stop() 取消时同样不缓存，返回 null 且不触发 'error' 事件，不会阻塞检查流程
+   */
+  private getReleaseMetadata(version: string, manifest?: VersionManifest): Promise<ReleaseMetadata | null> {
+    const cached = this.releaseCache.get(version);
+    if (cached) {
+      return cached;
+    }
+
+    const { releaseNotesUrl, releaseNotesHeaders, credentials } = this.options;
+    const controller = typeof AbortController !== 'undefined' ? new AbortController() : null;
+    const pending = releaseNotesUrl
+      ? this.withTimeout(fetchReleaseMetadata(resolveReleaseNotesUrl(releaseNotesUrl, version), {
+        credentials,
+        headers: releaseNotesHeaders,
+        signal: controller?.signal
+      }), controller).catch(error => {
+        this.releaseCache.delete(version);
+        if (!(error instanceof CancelledError)) {
+          this.emit('error', error);
+        }
+        return null;
+      })
+      : Promise.resolve(parseReleaseMetadata(manifest));
+
+    this.releaseCache.set(version, pending);
+    return pending;
+  }
+
+  /**
+   * 检查 Service Worker 更新并等待新的 worker 安装完成
+   * 
+   * @private
+   * @returns 新的 worker 是否已安装并等待激活；页面未注册 Service Worker 时返回 null
+   * 
+   * @remarks
+   * 更新或安装失败时触发 'error' 事件并返回 false，'update' 事件照常触发，reload() 退化为直接刷新页面。
+   * 等待超过 serviceWorkerTimeout 或被 stop() 中断时返回 false，安装仍在后台继续，完成后 reload() 同样会先激活新的 worker
+   */
+  private async prepareServiceWorker(): Promise<boolean | null> {
+    const { serviceWorker, serviceWorkerTimeout } = this.options;
+    const installation = resolveRegistration(serviceWorker)
+      .then(async registration => {
+        if (!registration) {
+          return null;
+        }
+        this.waitingWorker = await updateServiceWorker(registration);
+        return this.waitingWorker !== null;
+      })
+      .catch(error => {
+        this.waitingWorker = null;
+        this.emit('error', error);
+        return false;
+      });
+
+    let timeoutTimer: NodeJS.Timeout | null = null;
+    const timeout = serviceWorkerTimeout > 0
+      ? new Promise<boolean>(resolve => {
+        timeoutTimer = setTimeout(() => {
+          this.options.logger.warn('Service worker installation is still pending', { timeout: serviceWorkerTimeout });
+          resolve(false);
+        }, serviceWorkerTimeout);
+      })
+      : null;
+
+    try {
+      return await this.cancellable(timeout ? Promise.race([installation, timeout]) : installation, () => undefined);
+    } catch {
+      // 被 stop() 中断，不再等待安装完成
+      return false;
+    } finally {
+      if (timeoutTimer) {
+        clearTimeout(timeoutTimer);
+      }
+    }
+  }
+
+  /**
+   * 更新基线版本标记并持久化
+   * 
+   * @private
+   * @param versionTag - 新的基线版本标记
+   */
+  private setVersionTag(versionTag: string | null): void {
+    this.versionTag = versionTag;
+    this.recordVersion(versionTag);
+    this.persistState();
+  }
+
+  /**
+   * 把版本标记加入历史，已存在时保持首次出现的位置
+   * 
+   * @private
+   * @param versionTag - 版本标记
+   */
+  private recordVersion(versionTag: string | null): void {
+    if (versionTag === null || this.versionHistory.includes(versionTag)) {
+      return;
+    }
+    this.versionHistory.push(versionTag);
+    if (this.versionHistory.length > VERSION_HISTORY_LIMIT) {
+      this.versionHistory.shift();
+    }
+  }
+
+  /**
+   * 记录一次与基线不同的版本标记，判断是否达到确认阈值
+   * 
+   * @private
+   * @param versionTag - 与基线不同的版本标记
+   * @param edge - 返回该版本的 CDN 节点
+   * @param pushed - 版本是否由服务端推送
+   * @returns 是否已确认
+   * 
+   * @remarks
+   * 连续 confirmationThreshold 次检查都得到该版本标记，或由 confirmationThreshold 个不同节点返回时确认。
+   * 出现另一个新的版本标记时重新开始计数。推送的版本直接来自服务端而不是 CDN 节点，并且推送连接正常时不会轮询，
+   * 无法再次看到该版本，因此直接确认
+   */
+  private confirmVersion(versionTag: string, edge: string | null, pushed = false): boolean {
+    const threshold = pushed ? 1 : this.options.confirmationThreshold;
+    if (this.candidate?.versionTag !== versionTag) {
+      this.candidate = { versionTag, consecutive: 0, edges: new Set() };
+    }
+    const candidate = this.candidate;
+    candidate.consecutive++;
+    if (edge) {
+      candidate.edges.add(edge);
+    }
+
+    if (candidate.consecutive >= threshold || candidate.edges.size >= threshold) {
+      this.candidate = null;
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * 检查又得到了基线版本，中断候选版本的连续确认
+   * 
+   * @private
+   * 
+   * @remarks
+   * 已由不同节点确认的次数会保留，发布期间旧节点返回旧版本不会阻止新版本被确认
+   */
+  private interruptConfirmation(): void {
+    if (this.candidate) {
+      this.candidate.consecutive = 0;
+    }
+  }
+
+  /**
+   * 把基线版本和已确认版本写入存储
+   * 
+   * @private
+   */
+  private persistState(): void {
+    saveVersionState(this.storage, this.getStorageKey(), {
+      versionTag: this.versionTag,
+      acknowledged: this.acknowledgedVersions
+    });
+  }
+
+  /**
+   * 获取存储键名
+   * 
+   * @private
+   */
+  private getStorageKey(): string {
+    return `${this.options.storageKey}:${this.options.versionUrl}`;
+  }
+
+  /**
+   * 比较版本标记并生成版本信息
+   * 
+   * @private
+   * @param fetched - 请求、推送或跨标签页同步得到的版本数据
+   * @returns 版本信息对象
+   * 
+   * @remarks
+   * 与基线不同的版本标记需要达到 confirmationThreshold 才视为版本变化。
+   * 非 semver 比较下，回到出现过的、早于当前基线的版本标记视为回滚而不是更新。
+   * 节点来回切换导致的反复提示由 confirmationThreshold 和 edgeHeader 抑制。
+   * 最低支持版本与当前页面实际运行的版本比较；版本标记不变、但尚未刷新的更新变为强制更新时，再次视为更新
+   */
+  private compareVersion(fetched: FetchedVersion): VersionInfo {
+    const { versionTag: newVersionTag, manifest, edge = null } = fetched;
+    const requirement = fetched.requirement ?? readVersionRequirement(manifest);
+    if (this.runningVersion === null) {
+      this.runningVersion = newVersionTag;
+    }
+    const versionInfo: VersionInfo = {
+      currentVersion: this.versionTag,
+      newVersion: newVersionTag,
+      updateAvailable: false,
+      timestamp: Date.now()
+    };
+
+    if (manifest) {
+      versionInfo.manifest = manifest;
+    }
+    if (fetched.notModified) {
+      versionInfo.notModified = true;
+    }
+    if (fetched.bytesSaved !== undefined) {
+      versionInfo.bytesSaved = fetched.bytesSaved;
+    }
+
+    if (this.versionTag === null) {
+      this.setVersionTag(newVersionTag);
+    } else if (newVersionTag !== null) {
+      const current = this.options.semver ? parseSemver(this.versionTag) : null;
+      const next = this.options.semver ? parseSemver(newVersionTag) : null;
+
+      if (current && next) {
+        const order = compareSemver(next, current);
+        if (order === 0) {
+          this.interruptConfirmation();
+        } else if (!this.confirmVersion(newVersionTag, edge, fetched.pushed)) {
+          versionInfo.unconfirmed = true;
+        } else if (order > 0) {
+          versionInfo.updateAvailable = true;
+          versionInfo.severity = getUpdateSeverity(current, next) ?? undefined;
+          this.setVersionTag(newVersionTag);
+        } else if (order < 0) {
+          // 降级不会替换当前版本标记，当前运行的仍然是较新的版本
+          versionInfo.downgrade = true;
+          if (this.options.downgradePolicy === 'report') {
+            this.emit('downgrade', versionInfo);
+          }
+        }
+      } else if (!this.options.versionComparator(this.versionTag, newVersionTag)) {
+        this.interruptConfirmation();
+      } else if (!this.confirmVersion(newVersionTag, edge, fetched.pushed)) {
+        versionInfo.unconfirmed = true;
+      } else {
+        const history = this.versionHistory;
+        const index = history.indexOf(newVersionTag);
+        if (index !== -1 && index < history.indexOf(this.versionTag)) {
+          versionInfo.rollback = true;
+        } else {
+          versionInfo.updateAvailable = true;
+        }
+        this.setVersionTag(newVersionTag);
+      }
+    }
+
+    const required = isUpdateRequired(requirement, this.runningVersion);
+    if (
+      required
+      && !versionInfo.updateAvailable
+      && !versionInfo.rollback
+      && newVersionTag === this.versionTag
+      && newVersionTag !== this.runningVersion
+      && newVersionTag !== this.requiredVersion
+    ) {
+      // 最低支持版本提高或声明了强制更新，之前通知过的可选更新变为强制更新
+      versionInfo.updateAvailable = true;
+    }
+
+    if (versionInfo.updateAvailable) {
+      versionInfo.requirement = required ? 'required' : 'optional';
+      if (required) {
+        this.requiredVersion = this.versionTag;
+      }
+      if (requirement?.minSupportedVersion) {
+        versionInfo.minSupportedVersion = requirement.minSupportedVersion;
+      }
+    }
+
+    return versionInfo;
+  }
+
+  /**
+   * 触发事件并通知所有监听器
+   * 
+   * @private
+   * @param event - 事件类型
+   * @param payload - 事件数据
+   */
+  private emit<K extends VersionCheckerEventType>(
+    event: K,
+    ...[payload]: VersionCheckerEventMap[K] extends undefined ? [] : [VersionCheckerEventMap[K]]
+  ): void {
+    this.events.emit(event, payload as VersionCheckerEventMap[K]);
+  }
+
+  /**
+   * 获取定时器状态 - 仅用于测试
+   * @internal
+   */
+  public getTimerState(): boolean {
+    return this.timer !== null;
+  }
+
+  /**
+   * 触发事件 - 仅用于测试
+   * @internal
+   */
+  public triggerEvent(event: VersionCheckerEventType, payload?: any): void {
+    (this.emit as (event: VersionCheckerEventType, payload?: unknown) => void)(event, payload);
+  }
+
+  /**
+   * 获取配置选项 - 仅用于测试
+   * @internal
    */
-  public getOptions(): Required<VersionCheckerOptions> {
+  public getOptions(): ResolvedVersionCheckerOptions {
     return { ...this.options };
   }
 }
 
+/**
+ * 读取构建插件注入的版本号
+ * 
+ * @returns 版本号，未使用构建插件时返回 null
+ */
+function readBuildVersion(): string | null {
+  return typeof __VERSION_SENTINEL_VERSION__ === 'string' ? __VERSION_SENTINEL_VERSION__ : null;
+}
+
+/**
+ * 生成指定区间内的随机整数
+ * 
+ * @param min - 下限(包含)
+ * @param max - 上限(包含)
+ * @returns 随机整数
+ */
+function randomBetween(min: number, max: number): number {
+  return Math.floor(min + Math.random() * (max - min + 1));
+}
+
+/**
+ * 按点号分隔的路径读取对象中的字段
+ * 
+ * @param source - 源对象
+ * @param path - 字段路径，如 'meta.version'
+ * @returns 字段值，路径不存在时返回 undefined
+ */
+function getFieldByPath(source: VersionManifest, path: string): unknown {
+  return path.split('.').reduce<unknown>((current, key) => {
+    if (current === null || typeof current !== 'object') {
+      return undefined;
+    }
+    return (current as Record<string, unknown>)[key];
+  }, source);
+}
+
 /**
  * 创建版本检查器实例的工厂函数
  * 
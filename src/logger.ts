@@ -0,0 +1,95 @@
+/**
+ * 结构化日志
+ *
+ * @remarks
+ * 检查器通过 logger 选项输出调度决策、请求详情、版本提取结果和重试决策等诊断信息。
+ * 每条日志由一条简短的消息和一个结构化的上下文对象组成,可以直接对接 console 或第三方日志库。
+ *
+ * 默认不输出任何日志。无需修改代码即可在运行时开启调试日志:
+ * - 页面地址带有 ?version-sentinel-debug 查询参数
+ * - localStorage 中设置了 version-sentinel-debug(值不为 'false' 或 '0')
+ */
+import { LogLevel, VersionCheckerLogger } from './types';
+
+/** 开启调试日志的查询参数和 localStorage 键 */
+export const DEBUG_FLAG = 'version-sentinel-debug';
+
+/** 日志级别的优先级 */
+const LEVEL_PRIORITY: Record<LogLevel, number> = {
+  debug: 0,
+  info: 1,
+  warn: 2,
+  error: 3
+};
+
+/** 不输出任何日志的 logger */
+export const silentLogger: VersionCheckerLogger = {
+  debug: () => undefined,
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined
+};
+
+/**
+ * 创建输出到 console 的 logger
+ *
+ * @param level - 最低输出级别
+ * @param prefix - 日志消息前缀
+ * @returns logger 实例
+ *
+ * @example
+ * ```typescript
+ * const checker = createVersionChecker({
+ *   logger: createConsoleLogger('info')
+ * });
+ * // [version-sentinel] Update detected { currentVersion: 'W/"1"', newVersion: 'W/"2"' }
+ * ```
+ */
+export function createConsoleLogger(level: LogLevel = 'debug', prefix = '[version-sentinel]'): VersionCheckerLogger {
+  const write = (target: LogLevel) => (message: string, context?: Record<string, unknown>) => {
+    if (LEVEL_PRIORITY[target] < LEVEL_PRIORITY[level]) {
+      return;
+    }
+    const args: unknown[] = [`${prefix} ${message}`];
+    if (context !== undefined) {
+      args.push(context);
+    }
+    console[target](...args);
+  };
+
+  return {
+    debug: write('debug'),
+    info: write('info'),
+    warn: write('warn'),
+    error: write('error')
+  };
+}
+
+/**
+ * 判断是否通过查询参数或 localStorage 开启了调试日志
+ *
+ * @returns 是否开启了调试日志
+ */
+export function isDebugEnabled(): boolean {
+  try {
+    if (typeof location !== 'undefined' && new URLSearchParams(location.search).has(DEBUG_FLAG)) {
+      return true;
+    }
+    if (typeof localStorage !== 'undefined') {
+      const value = localStorage.getItem(DEBUG_FLAG);
+      return value !== null && value !== 'false' && value !== '0';
+    }
+  } catch {
+    // 无法访问 localStorage(如隐私模式或沙箱 iframe)时视为未开启
+  }
+  return false;
+}
+
+/**
+ * 获取默认 logger
+ *
+ * @returns 开启了调试日志时返回 debug 级别的 console logger,否则返回不输出任何日志的 logger
+ */
+export function getDefaultLogger(): VersionCheckerLogger {
+  return isDebugEnabled() ? createConsoleLogger('debug') : silentLogger;
+}
@@ -0,0 +1,274 @@
+/**
+ * 构建插件,生成版本清单并注入当前版本
+ *
+ * @remarks
+ * 构建时生成包含版本号、git 提交哈希和构建时间的版本清单(默认 version.json),
+ * 并把同一个版本号以 define 常量的形式注入到产物中。
+ * 开启 VersionChecker 的 useBuildVersion 选项后,检查器会读取该常量作为初始基线版本,
+ * 配合 compareStrategy: 'json' 即可在首次检查时发现版本不一致。
+ *
+ * 提供 esbuild、Vite 和 webpack(5.x) 三种插件形式,它们共享同一份版本清单。
+ *
+ * @example
+ * ```typescript
+ * // vite.config.ts
+ * import { vitePlugin as versionSentinel } from 'version-sentinel/plugin';
+ *
+ * export default defineConfig({
+ *   plugins: [versionSentinel()]
+ * });
+ *
+ * // 应用代码
+ * createVersionChecker({
+ *   versionUrl: '/version.json',
+ *   compareStrategy: 'json',
+ *   useBuildVersion: true
+ * });
+ * ```
+ */
+import { execSync } from 'child_process';
+import { mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname, join, resolve } from 'path';
+
+/**
+ * 注入当前版本号的 define 常量名
+ *
+ * @remarks
+ * VersionChecker 在 useBuildVersion 为 true 时读取该常量
+ */
+export const BUILD_VERSION_DEFINE = '__VERSION_SENTINEL_VERSION__';
+
+/**
+ * 构建生成的版本清单
+ */
+export interface BuildVersionManifest {
+  /** 版本号 */
+  version: string;
+  /** git 提交哈希,不在 git 仓库中构建时为 null */
+  gitHash: string | null;
+  /** 构建时间戳(毫秒) */
+  buildTime: number;
+}
+
+/**
+ * 构建插件配置选项
+ */
+export interface VersionPluginOptions {
+  /**
+   * 版本号
+   * @remarks 默认读取当前工作目录下 package.json 的 version 字段
+   */
+  version?: string;
+
+  /**
+   * git 提交哈希
+   * @remarks 默认执行 `git rev-parse --short HEAD` 获取,设为 null 时不记录
+   */
+  gitHash?: string | null;
+
+  /**
+   * 版本清单文件名,相对于构建输出目录
+   * @defaultValue 'version.json'
+   */
+  fileName?: string;
+
+  /**
+   * 额外写入版本清单的字段
+   */
+  extra?: Record<string, unknown>;
+}
+
+/**
+ * 生成版本清单
+ *
+ * @param options - 插件配置选项
+ * @returns 版本清单
+ */
+export function createBuildManifest(options: VersionPluginOptions = {}): BuildVersionManifest & Record<string, unknown> {
+  return {
+    ...options.extra,
+    version: options.version ?? readPackageVersion(),
+    gitHash: options.gitHash === undefined ? readGitHash() : options.gitHash,
+    buildTime: Date.now()
+  };
+}
+
+/**
+ * 读取当前工作目录下 package.json 的版本号
+ *
+ * @returns 版本号,读取失败时返回 '0.0.0'
+ */
+function readPackageVersion(): string {
+  try {
+    const pkg = JSON.parse(readFileSync(resolve(process.cwd(), 'package.json'), 'utf8'));
+    return typeof pkg.version === 'string' ? pkg.version : '0.0.0';
+  } catch {
+    return '0.0.0';
+  }
+}
+
+/**
+ * 读取当前 git 提交的短哈希
+ *
+ * @returns 短哈希,不在 git 仓库中或未安装 git 时返回 null
+ */
+function readGitHash(): string | null {
+  try {
+    return execSync('git rev-parse --short HEAD', { stdio: ['ignore', 'pipe', 'ignore'] }).toString().trim() || null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 创建插件共享的构建上下文
+ *
+ * @param options - 插件配置选项
+ * @returns 懒加载的版本清单和相关工具函数
+ */
+function createBuildContext(options: VersionPluginOptions) {
+  let manifest: ReturnType<typeof createBuildManifest> | null = null;
+  const getManifest = () => {
+    if (!manifest) {
+      manifest = createBuildManifest(options);
+    }
+    return manifest;
+  };
+
+  return {
+    fileName: options.fileName ?? 'version.json',
+    getManifest,
+    getDefine: () => ({ [BUILD_VERSION_DEFINE]: JSON.stringify(getManifest().version) }),
+    getSource: () => JSON.stringify(getManifest(), null, 2)
+  };
+}
+
+/**
+ * esbuild 插件的最小结构
+ * @remarks 仅声明用到的字段,避免依赖 esbuild 的类型
+ */
+export interface EsbuildPluginLike {
+  name: string;
+  setup(build: {
+    initialOptions: { define?: Record<string, string>; outdir?: string; outfile?: string; write?: boolean };
+    onEnd(callback: (result: { errors: unknown[] }) => void): void;
+  }): void;
+}
+
+/**
+ * 创建 esbuild 插件
+ *
+ * @param options - 插件配置选项
+ * @returns esbuild 插件
+ *
+ * @remarks
+ * 版本清单写入 outdir(或 outfile 所在目录),构建失败或 write 为 false 时不写入
+ */
+export function esbuildPlugin(options: VersionPluginOptions = {}): EsbuildPluginLike {
+  const context = createBuildContext(options);
+
+  return {
+    name: 'version-sentinel',
+    setup(build) {
+      const { initialOptions } = build;
+      initialOptions.define = { ...initialOptions.define, ...context.getDefine() };
+
+      build.onEnd(result => {
+        const outDir = initialOptions.outdir ?? (initialOptions.outfile ? dirname(initialOptions.outfile) : null);
+        if (result.errors.length > 0 || initialOptions.write === false || !outDir) {
+          return;
+        }
+        const filePath = join(outDir, context.fileName);
+        mkdirSync(dirname(filePath), { recursive: true });
+        writeFileSync(filePath, context.getSource());
+      });
+    }
+  };
+}
+
+/**
+ * Vite 插件的最小结构
+ * @remarks 仅声明用到的字段,避免依赖 Vite 的类型
+ */
+export interface VitePluginLike {
+  name: string;
+  config(): { define: Record<string, string> };
+  generateBundle(this: { emitFile(file: { type: 'asset'; fileName: string; source: string }): string }): void;
+}
+
+/**
+ * 创建 Vite 插件
+ *
+ * @param options - 插件配置选项
+ * @returns Vite 插件
+ *
+ * @remarks
+ * 版本清单作为静态资源输出到 build.outDir
+ */
+export function vitePlugin(options: VersionPluginOptions = {}): VitePluginLike {
+  const context = createBuildContext(options);
+
+  return {
+    name: 'version-sentinel',
+    config() {
+      return { define: context.getDefine() };
+    },
+    generateBundle() {
+      this.emitFile({ type: 'asset', fileName: context.fileName, source: context.getSource() });
+    }
+  };
+}
+
+/**
+ * webpack 编译器的最小结构
+ * @remarks 仅声明用到的字段,避免依赖 webpack 的类型
+ */
+export interface WebpackCompilerLike {
+  webpack: {
+    DefinePlugin: new (definitions: Record<string, string>) => { apply(compiler: WebpackCompilerLike): void };
+    Compilation: { PROCESS_ASSETS_STAGE_ADDITIONAL: number };
+    sources: { RawSource: new (source: string) => unknown };
+  };
+  hooks: {
+    thisCompilation: {
+      tap(name: string, callback: (compilation: {
+        hooks: { processAssets: { tap(options: { name: string; stage: number }, callback: () => void): void } };
+        emitAsset(fileName: string, source: unknown): void;
+      }) => void): void;
+    };
+  };
+}
+
+/**
+ * webpack 插件的结构
+ */
+export interface WebpackPluginLike {
+  apply(compiler: WebpackCompilerLike): void;
+}
+
+/**
+ * 创建 webpack 插件
+ *
+ * @param options - 插件配置选项
+ * @returns webpack 插件,需要 webpack 5
+ *
+ * @remarks
+ * 通过 DefinePlugin 注入版本号,版本清单作为资源输出到 output.path
+ */
+export function webpackPlugin(options: VersionPluginOptions = {}): WebpackPluginLike {
+  const context = createBuildContext(options);
+
+  return {
+    apply(compiler) {
+      const { DefinePlugin, Compilation, sources } = compiler.webpack;
+      new DefinePlugin(context.getDefine()).apply(compiler);
+
+      compiler.hooks.thisCompilation.tap('version-sentinel', compilation => {
+        compilation.hooks.processAssets.tap(
+          { name: 'version-sentinel', stage: Compilation.PROCESS_ASSETS_STAGE_ADDITIONAL },
+          () => compilation.emitAsset(context.fileName, new sources.RawSource(context.getSource()))
+        );
+      });
+    }
+  };
+}
@@ -0,0 +1,81 @@
+/**
+ * React 适配器
+ * 
+ * @remarks
+ * 作为独立入口 version-sentinel/react 发布,需要 React 18 及以上版本。
+ * 组件挂载时获取共享的版本检查器,卸载时释放;同一个 versionUrl 的多个组件共享同一个检查器。
+ * 
+ * @example
+ * ```tsx
+ * import { useVersionSentinel } from 'version-sentinel/react';
+ * 
+ * function UpdateBanner() {
+ *   const { updateAvailable, latest, reload } = useVersionSentinel({
+ *     versionUrl: '/version.json',
+ *     compareStrategy: 'json'
+ *   });
+ * 
+ *   if (!updateAvailable) return null;
+ *   return <button onClick={reload}>新版本 {latest?.newVersion} 已发布，点击刷新</button>;
+ * }
+ * ```
+ */
+import { useCallback, useEffect, useRef, useState, useSyncExternalStore } from 'react';
+import { acquireStore, releaseStore, INITIAL_STATE, VersionSentinelState, VersionStore } from './store';
+import type { VersionChecker } from './index';
+import { VersionCheckerOptions, VersionInfo } from './types';
+
+/**
+ * useVersionSentinel 的返回值
+ */
+export interface UseVersionSentinelResult extends VersionSentinelState {
+  /** 手动检查一次,失败时返回 null */
+  check: () => Promise<VersionInfo | null>;
+  /** 刷新页面 */
+  reload: () => void;
+  /** 共享的版本检查器,挂载完成前为 null */
+  checker: VersionChecker | null;
+}
+
+/** 尚未获取仓库时使用的空订阅 */
+const noopSubscribe = () => () => {};
+
+/** 尚未获取仓库时使用的初始状态 */
+const getInitialState = () => INITIAL_STATE;
+
+/**
+ * 在 React 组件中使用版本检查器
+ * 
+ * @param options - 版本检查器配置选项,同一个 versionUrl 以首个挂载的组件传入的配置为准
+ * @returns 响应式的版本状态和操作
+ */
+export function useVersionSentinel(options: VersionCheckerOptions = {}): UseVersionSentinelResult {
+  const versionUrl = options.versionUrl ?? '/';
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+  const [store, setStore] = useState<VersionStore | null>(null);
+
+  useEffect(() => {
+    const acquired = acquireStore({ ...optionsRef.current, versionUrl });
+    setStore(acquired);
+    return () => {
+      releaseStore(acquired);
+    };
+  }, [versionUrl]);
+
+  const state = useSyncExternalStore(
+    store ? store.subscribe : noopSubscribe,
+    store ? store.getState : getInitialState,
+    getInitialState
+  );
+
+  const check = useCallback(() => (store ? store.check() : Promise.resolve(null)), [store]);
+  const reload = useCallback(() => (store ? store.reload() : location.reload()), [store]);
+
+  return {
+    ...state,
+    check,
+    reload,
+    checker: store ? store.checker : null
+  };
+}
@@ -0,0 +1,85 @@
+/**
+ * 发布信息解析
+ *
+ * @remarks
+ * 从版本清单或独立的更新日志地址中读取发布说明、发布日期和是否为关键更新。
+ * 识别的字段:
+ * - notes: 发布说明,字符串或字符串数组(按行拼接)
+ * - releaseDate: 发布日期,字符串或时间戳
+ * - critical: 是否为关键更新
+ */
+import { ReleaseMetadata } from './types';
+import { HttpError } from './errors';
+
+/** 更新日志地址模板中的版本号占位符 */
+const VERSION_PLACEHOLDER = /\{version\}/g;
+
+/**
+ * 从 JSON 对象中解析发布信息
+ *
+ * @param source - 版本清单或更新日志的 JSON 对象
+ * @returns 发布信息,不包含任何可识别字段时返回 null
+ *
+ * @example
+ * ```typescript
+ * parseReleaseMetadata({ version: '1.2.0', notes: ['修复登录问题'], critical: true });
+ * // { notes: '修复登录问题', releaseDate: null, critical: true }
+ * ```
+ */
+export function parseReleaseMetadata(source: unknown): ReleaseMetadata | null {
+  if (source === null || typeof source !== 'object') {
+    return null;
+  }
+
+  const { notes, releaseDate, critical } = source as Record<string, unknown>;
+  if (notes === undefined && releaseDate === undefined && critical === undefined) {
+    return null;
+  }
+
+  return {
+    notes: Array.isArray(notes)
+      ? notes.map(String).join('\n')
+      : typeof notes === 'string' ? notes : null,
+    releaseDate: typeof releaseDate === 'number'
+      ? new Date(releaseDate).toISOString()
+      : typeof releaseDate === 'string' ? releaseDate : null,
+    critical: critical === true
+  };
+}
+
+/**
+ * 把版本号填入更新日志地址模板
+ *
+ * @param template - 包含 {version} 占位符的地址模板
+ * @param version - 版本号
+ * @returns 更新日志地址
+ */
+export function resolveReleaseNotesUrl(template: string, version: string): string {
+  return template.replace(VERSION_PLACEHOLDER, encodeURIComponent(version));
+}
+
+/**
+ * 请求更新日志并解析发布信息
+ *
+ * @param url - 更新日志地址
+ * @param init - fetch 请求配置
+ * @returns 发布信息
+ * @throws 响应非 2xx 时抛出 HttpError
+ *
+ * @remarks
+ * JSON 响应按字段解析;其他响应(如纯文本或 Markdown)整体作为发布说明
+ */
+export async function fetchReleaseMetadata(url: string, init: RequestInit): Promise<ReleaseMetadata> {
+  const response = await fetch(url, init);
+  if (!response.ok) {
+    throw new HttpError(response.status, response.statusText);
+  }
+
+  const contentType = response.headers.get('content-type') ?? '';
+  if (contentType.includes('json')) {
+    return parseReleaseMetadata(await response.json()) ?? { notes: null, releaseDate: null, critical: false };
+  }
+
+  const text = (await response.text()).trim();
+  return { notes: text || null, releaseDate: null, critical: false };
+}
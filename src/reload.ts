@@ -0,0 +1,205 @@
+/**
+ * 自动刷新控制器
+ *
+ * @remarks
+ * 发现更新后按刷新策略选择合适的时机刷新页面:
+ * - immediate: 立即刷新
+ * - route-change: 下一次 SPA 路由切换时刷新(popstate、hashchange 或手动通知)
+ * - idle: 用户空闲一段时间后刷新
+ * - hidden: 标签页下一次进入后台时刷新
+ *
+ * 每次尝试刷新前都会调用刷新守卫,任意守卫否决时推迟刷新,并通过 onPending 报告阻止刷新的守卫。
+ */
+import { ReloadGuard, ReloadPendingEventPayload, ReloadPolicy, VersionInfo } from './types';
+
+/** 视为用户活动的事件 */
+const ACTIVITY_EVENTS = ['pointerdown', 'pointermove', 'keydown', 'scroll', 'touchstart', 'wheel'];
+
+/**
+ * 自动刷新控制器配置
+ */
+export interface ReloadControllerOptions {
+  /** 刷新策略 */
+  policy: Exclude<ReloadPolicy, 'manual'>;
+  /** idle 策略下的空闲时间(毫秒) */
+  idleTimeout: number;
+  /** 刷新守卫,按名称索引 */
+  guards: Map<string, ReloadGuard>;
+  /** 执行刷新 */
+  reload: (info: VersionInfo) => void;
+  /** 刷新被安排或被守卫推迟时调用 */
+  onPending: (payload: ReloadPendingEventPayload) => void;
+}
+
+/**
+ * 自动刷新控制器类
+ *
+ * @example
+ * ```typescript
+ * const controller = new ReloadController({
+ *   policy: 'idle',
+ *   idleTimeout: 30000,
+ *   guards: new Map([['form', () => !form.dirty]]),
+ *   reload: () => location.reload(),
+ *   onPending: ({ blockedBy }) => console.log('刷新被阻止:', blockedBy)
+ * });
+ * controller.schedule(info);
+ * ```
+ */
+export class ReloadController {
+  /**
+   * 控制器配置
+   * @private
+   */
+  private options: ReloadControllerOptions;
+
+  /**
+   * 等待刷新的版本信息,没有待刷新的更新时为 null
+   * @private
+   */
+  private pending: VersionInfo | null = null;
+
+  /**
+   * 已注册的页面事件监听器
+   * @private
+   */
+  private listeners: Array<{ target: EventTarget; type: string; listener: () => void }> = [];
+
+  /**
+   * idle 策略的空闲计时器
+   * @private
+   */
+  private idleTimer: NodeJS.Timeout | null = null;
+
+  constructor(options: ReloadControllerOptions) {
+    this.options = options;
+  }
+
+  /**
+   * 等待刷新的版本标记,没有待刷新的更新时为 null
+   */
+  public get pendingVersion(): string | null {
+    return this.pending?.newVersion ?? null;
+  }
+
+  /**
+   * 安排一次刷新
+   *
+   * @param info - 触发刷新的版本信息,已有待刷新的更新时替换为新的版本信息
+   */
+  public schedule(info: VersionInfo): void {
+    const alreadyPending = this.pending !== null;
+    this.pending = info;
+    this.options.onPending({ info, policy: this.options.policy, blockedBy: [] });
+
+    if (!alreadyPending) {
+      this.attachListeners();
+    }
+    if (this.options.policy === 'immediate') {
+      this.attempt();
+    }
+  }
+
+  /**
+   * 立即尝试刷新
+   *
+   * @returns 是否执行了刷新;没有待刷新的更新或被守卫否决时返回 false
+   */
+  public attempt(): boolean {
+    const info = this.pending;
+    if (!info) {
+      return false;
+    }
+
+    const blockedBy = Array.from(this.options.guards.entries())
+      .filter(([, guard]) => guard(info) === false)
+      .map(([name]) => name);
+
+    if (blockedBy.length > 0) {
+      this.options.onPending({ info, policy: this.options.policy, blockedBy });
+      if (this.options.policy === 'idle') {
+        this.resetIdleTimer();
+      }
+      return false;
+    }
+
+    this.cancel();
+    this.options.reload(info);
+    return true;
+  }
+
+  /**
+   * 通知发生了 SPA 路由切换
+   *
+   * @remarks
+   * 仅在 route-change 策略下生效。popstate 和 hashchange 会自动处理,
+   * 通过 history.pushState 切换路由的应用需要在路由钩子中调用
+   */
+  public notifyRouteChange(): void {
+    if (this.options.policy === 'route-change') {
+      this.attempt();
+    }
+  }
+
+  /**
+   * 取消待刷新的更新并移除页面事件监听器
+   */
+  public cancel(): void {
+    this.pending = null;
+    this.listeners.forEach(({ target, type, listener }) => target.removeEventListener(type, listener));
+    this.listeners = [];
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer);
+      this.idleTimer = null;
+    }
+  }
+
+  /**
+   * 按刷新策略注册触发刷新的页面事件监听器
+   *
+   * @private
+   */
+  private attachListeners(): void {
+    const listen = (target: EventTarget | undefined, type: string, listener: () => void) => {
+      if (target) {
+        target.addEventListener(type, listener);
+        this.listeners.push({ target, type, listener });
+      }
+    };
+    const doc = typeof document !== 'undefined' ? document : undefined;
+    const win = typeof window !== 'undefined' ? window : undefined;
+
+    switch (this.options.policy) {
+      case 'route-change':
+        listen(win, 'popstate', () => this.attempt());
+        listen(win, 'hashchange', () => this.attempt());
+        break;
+      case 'idle':
+        ACTIVITY_EVENTS.forEach(type => listen(win, type, () => this.resetIdleTimer()));
+        this.resetIdleTimer();
+        break;
+      case 'hidden':
+        listen(doc, 'visibilitychange', () => {
+          if (doc?.visibilityState === 'hidden') {
+            this.attempt();
+          }
+        });
+        break;
+    }
+  }
+
+  /**
+   * 重新开始空闲计时
+   *
+   * @private
+   */
+  private resetIdleTimer(): void {
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer);
+    }
+    this.idleTimer = setTimeout(() => {
+      this.idleTimer = null;
+      this.attempt();
+    }, this.options.idleTimeout);
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * 强制更新与最低支持版本
+ *
+ * @remarks
+ * 后端不再兼容旧客户端时,可以通过版本清单或响应头要求客户端必须更新:
+ * - 版本清单字段: minSupportedVersion(最低支持版本)、mandatory(是否强制更新)
+ * - 响应头: X-Min-Supported-Version、X-Update-Mandatory('true' 或 '1')
+ *
+ * 两者同时存在时版本清单优先。最低支持版本按语义化版本与当前运行的版本比较,
+ * 任一方无法解析为语义化版本时忽略该字段。
+ */
+import { VersionManifest } from './types';
+import { parseSemver, compareSemver } from './semver';
+
+/** 最低支持版本响应头 */
+const MIN_SUPPORTED_VERSION_HEADER = 'x-min-supported-version';
+
+/** 强制更新响应头 */
+const MANDATORY_HEADER = 'x-update-mandatory';
+
+/**
+ * 服务端声明的更新要求
+ */
+export interface VersionRequirement {
+  /** 最低支持版本,未声明时为 null */
+  minSupportedVersion: string | null;
+  /** 是否强制更新 */
+  mandatory: boolean;
+}
+
+/**
+ * 从版本清单和响应头中读取更新要求
+ *
+ * @param manifest - 版本清单,仅 json 策略下存在
+ * @param headers - 版本检查响应的响应头
+ * @returns 更新要求,都未声明时返回 null
+ *
+ * @example
+ * ```typescript
+ * readVersionRequirement({ version: '3.0.0', minSupportedVersion: '2.0.0' });
+ * // { minSupportedVersion: '2.0.0', mandatory: false }
+ * ```
+ */
+export function readVersionRequirement(manifest?: VersionManifest, headers?: Headers): VersionRequirement | null {
+  const minValue = manifest?.minSupportedVersion ?? headers?.get(MIN_SUPPORTED_VERSION_HEADER);
+  const mandatoryValue = manifest?.mandatory ?? headers?.get(MANDATORY_HEADER);
+  const minSupportedVersion = typeof minValue === 'string' || typeof minValue === 'number' ? String(minValue) : null;
+  const mandatory = mandatoryValue === true || (typeof mandatoryValue === 'string' && /^(true|1)$/i.test(mandatoryValue.trim()));
+
+  if (minSupportedVersion === null && !mandatory) {
+    return null;
+  }
+  return { minSupportedVersion, mandatory };
+}
+
+/**
+ * 判断当前运行的版本是否必须更新
+ *
+ * @param requirement - 服务端声明的更新要求
+ * @param runningVersion - 当前运行的版本
+ * @returns 声明了强制更新,或当前版本低于最低支持版本时返回 true
+ */
+export function isUpdateRequired(requirement: VersionRequirement | null, runningVersion: string | null): boolean {
+  if (!requirement) {
+    return false;
+  }
+  if (requirement.mandatory) {
+    return true;
+  }
+  if (requirement.minSupportedVersion === null || runningVersion === null) {
+    return false;
+  }
+
+  const running = parseSemver(runningVersion);
+  const minimum = parseSemver(requirement.minSupportedVersion);
+  return running !== null && minimum !== null && compareSemver(running, minimum) < 0;
+}
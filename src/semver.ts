@@ -0,0 +1,132 @@
+/**
+ * 语义化版本工具函数
+ * 
+ * @remarks
+ * 提供语义化版本(SemVer 2.0.0)的解析、比较与差异计算,
+ * 供版本检查器在 semver 模式下判断更新方向和更新级别。
+ */
+import { UpdateSeverity } from './types';
+
+/**
+ * 解析后的语义化版本
+ */
+export interface SemVer {
+  /** 主版本号 */
+  major: number;
+  /** 次版本号 */
+  minor: number;
+  /** 修订号 */
+  patch: number;
+  /** 预发布标识,按 '.' 拆分 */
+  prerelease: string[];
+}
+
+/** 
+ * 语义化版本正则
+ * @remarks 允许 'v' 前缀,忽略构建元数据
+ */
+const SEMVER_PATTERN = /^v?(0|[1-9]\d*)\.(0|[1-9]\d*)\.(0|[1-9]\d*)(?:-([0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*))?(?:\+[0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*)?$/i;
+
+/**
+ * 解析语义化版本字符串
+ * 
+ * @param version - 版本字符串,允许带 'v' 前缀或被引号包裹(如 ETag)
+ * @returns 解析结果,不是合法的语义化版本时返回 null
+ * 
+ * @example
+ * ```typescript
+ * parseSemver('v2.4.1-beta.1'); // { major: 2, minor: 4, patch: 1, prerelease: ['beta', '1'] }
+ * parseSemver('W/"123"');       // null
+ * ```
+ */
+export function parseSemver(version: string): SemVer | null {
+  const match = SEMVER_PATTERN.exec(version.trim().replace(/^"(.*)"$/, '$1'));
+  if (!match) {
+    return null;
+  }
+
+  return {
+    major: Number(match[1]),
+    minor: Number(match[2]),
+    patch: Number(match[3]),
+    prerelease: match[4] ? match[4].split('.') : []
+  };
+}
+
+/**
+ * 比较两个预发布标识
+ * 
+ * @param a - 预发布标识 a
+ * @param b - 预发布标识 b
+ * @returns a 高于 b 返回正数,低于返回负数,相等返回 0
+ */
+function comparePrerelease(a: string[], b: string[]): number {
+  // 没有预发布标识的版本高于带预发布标识的版本
+  if (a.length === 0 || b.length === 0) {
+    return b.length - a.length;
+  }
+
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    if (a[i] === undefined) {
+      return -1;
+    }
+    if (b[i] === undefined) {
+      return 1;
+    }
+    if (a[i] === b[i]) {
+      continue;
+    }
+
+    const aNumeric = /^\d+$/.test(a[i]);
+    const bNumeric = /^\d+$/.test(b[i]);
+    if (aNumeric && bNumeric) {
+      return Number(a[i]) - Number(b[i]);
+    }
+    if (aNumeric !== bNumeric) {
+      // 数字标识低于字母数字标识
+      return aNumeric ? -1 : 1;
+    }
+    return a[i] < b[i] ? -1 : 1;
+  }
+
+  return 0;
+}
+
+/**
+ * 比较两个语义化版本的先后
+ * 
+ * @param a - 版本 a
+ * @param b - 版本 b
+ * @returns a 高于 b 返回正数,低于返回负数,相等返回 0
+ */
+export function compareSemver(a: SemVer, b: SemVer): number {
+  return (
+    a.major - b.major ||
+    a.minor - b.minor ||
+    a.patch - b.patch ||
+    comparePrerelease(a.prerelease, b.prerelease)
+  );
+}
+
+/**
+ * 计算两个语义化版本之间的更新级别
+ * 
+ * @param from - 原版本
+ * @param to - 目标版本
+ * @returns 最高的变化级别,两个版本相等时返回 null
+ */
+export function getUpdateSeverity(from: SemVer, to: SemVer): UpdateSeverity | null {
+  if (from.major !== to.major) {
+    return 'major';
+  }
+  if (from.minor !== to.minor) {
+    return 'minor';
+  }
+  if (from.patch !== to.patch) {
+    return 'patch';
+  }
+  if (comparePrerelease(from.prerelease, to.prerelease) !== 0) {
+    return 'prerelease';
+  }
+  return null;
+}
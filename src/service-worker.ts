@@ -0,0 +1,98 @@
+/**
+ * Service Worker 更新集成
+ *
+ * @remarks
+ * 检测到新版本后调用 registration.update(),等待新的 worker 进入 installed 状态才视为更新就绪;
+ * 刷新时向等待中的 worker 发送 skipWaiting 消息,在 controllerchange 后再刷新页面。
+ *
+ * Service Worker 需要处理该消息,例如:
+ * ```javascript
+ * self.addEventListener('message', (event) => {
+ *   if (event.data?.type === 'SKIP_WAITING') {
+ *     self.skipWaiting();
+ *   }
+ * });
+ * ```
+ */
+
+/**
+ * 获取 Service Worker 注册
+ *
+ * @param option - true 时读取当前页面的注册,也可以直接传入注册对象
+ * @returns 注册对象,环境不支持或页面未注册 Service Worker 时返回 null
+ */
+export async function resolveRegistration(
+  option: boolean | ServiceWorkerRegistration
+): Promise<ServiceWorkerRegistration | null> {
+  if (option !== true) {
+    return option || null;
+  }
+  if (typeof navigator === 'undefined' || !navigator.serviceWorker) {
+    return null;
+  }
+  return (await navigator.serviceWorker.getRegistration()) ?? null;
+}
+
+/**
+ * 检查 Service Worker 更新并等待新的 worker 安装完成
+ *
+ * @param registration - Service Worker 注册
+ * @returns 进入 installed 状态、等待激活的 worker;Service Worker 脚本没有变化时返回 null
+ * @throws 新的 worker 安装失败(进入 redundant 状态)时抛出错误
+ */
+export async function updateServiceWorker(registration: ServiceWorkerRegistration): Promise<ServiceWorker | null> {
+  await registration.update();
+
+  const installing = registration.installing;
+  if (!installing) {
+    return registration.waiting;
+  }
+
+  return new Promise<ServiceWorker>((resolve, reject) => {
+    const handleStateChange = () => {
+      if (installing.state === 'installed') {
+        installing.removeEventListener('statechange', handleStateChange);
+        resolve(installing);
+      } else if (installing.state === 'redundant') {
+        installing.removeEventListener('statechange', handleStateChange);
+        reject(new Error('Service worker installation failed'));
+      }
+    };
+    installing.addEventListener('statechange', handleStateChange);
+    handleStateChange();
+  });
+}
+
+/**
+ * 激活等待中的 worker,并在其接管页面后刷新
+ *
+ * @param worker - 等待中的 worker
+ * @param message - 通知 worker 执行 skipWaiting 的消息
+ * @param reload - 新的 worker 接管页面后执行的刷新
+ * @param timeout - 等待接管的最长时间(毫秒),超时后直接刷新;为 0 时不限制
+ *
+ * @remarks
+ * worker 已被其他标签页激活(activated)或已失效(redundant)时不会再触发 controllerchange,直接刷新;
+ * Service Worker 没有处理该消息时,超时后同样直接刷新,保证刷新操作总会执行
+ */
+export function activateWaitingWorker(worker: ServiceWorker, message: unknown, reload: () => void, timeout = 0): void {
+  if (worker.state === 'activated' || worker.state === 'redundant') {
+    reload();
+    return;
+  }
+
+  const container = navigator.serviceWorker;
+  let timeoutTimer: NodeJS.Timeout | null = null;
+  const handleControllerChange = () => {
+    container.removeEventListener('controllerchange', handleControllerChange);
+    if (timeoutTimer) {
+      clearTimeout(timeoutTimer);
+    }
+    reload();
+  };
+  container.addEventListener('controllerchange', handleControllerChange);
+  if (timeout > 0) {
+    timeoutTimer = setTimeout(handleControllerChange, timeout);
+  }
+  worker.postMessage(message);
+}
@@ -0,0 +1,75 @@
+/**
+ * 过期资源检测
+ *
+ * @remarks
+ * 新版本发布后,旧标签页按需加载的代码块可能已从服务器删除,动态 import() 会失败。
+ * 监听页面的 error 和 unhandledrejection 事件,识别以下代码块加载失败:
+ * - webpack: ChunkLoadError、"Loading chunk xxx failed"、"Loading CSS chunk xxx failed"
+ * - Chrome: "Failed to fetch dynamically imported module"
+ * - Firefox: "error loading dynamically imported module"
+ * - Safari: "Importing a module script failed"
+ */
+import { StaleAssetsEventPayload } from './types';
+
+/** 代码块加载失败的错误信息 */
+const STALE_ASSET_PATTERNS = [
+  /Loading (CSS )?chunk [\w-]+ failed/i,
+  /Failed to fetch dynamically imported module/i,
+  /error loading dynamically imported module/i,
+  /Importing a module script failed/i
+];
+
+/**
+ * 判断错误是否为代码块加载失败
+ *
+ * @param error - 错误对象或错误信息
+ * @returns 是否为代码块加载失败
+ *
+ * @example
+ * ```typescript
+ * isStaleAssetError(new TypeError('Failed to fetch dynamically imported module: /assets/page-3f2a.js'));
+ * // true
+ * ```
+ */
+export function isStaleAssetError(error: unknown): boolean {
+  if (typeof error === 'string') {
+    return STALE_ASSET_PATTERNS.some(pattern => pattern.test(error));
+  }
+  if (error === null || typeof error !== 'object') {
+    return false;
+  }
+
+  const { name, message } = error as { name?: unknown; message?: unknown };
+  return name === 'ChunkLoadError' || (typeof message === 'string' && isStaleAssetError(message));
+}
+
+/**
+ * 监听页面中的代码块加载失败
+ *
+ * @param onStale - 发现代码块加载失败时调用
+ * @returns 移除监听的函数
+ */
+export function watchStaleAssets(onStale: (payload: StaleAssetsEventPayload) => void): () => void {
+  if (typeof window === 'undefined') {
+    return () => undefined;
+  }
+
+  const handleError = (event: ErrorEvent) => {
+    const error = event.error ?? event.message;
+    if (isStaleAssetError(error)) {
+      onStale({ error, source: 'error' });
+    }
+  };
+  const handleRejection = (event: PromiseRejectionEvent) => {
+    if (isStaleAssetError(event.reason)) {
+      onStale({ error: event.reason, source: 'unhandledrejection' });
+    }
+  };
+
+  window.addEventListener('error', handleError);
+  window.addEventListener('unhandledrejection', handleRejection);
+  return () => {
+    window.removeEventListener('error', handleError);
+    window.removeEventListener('unhandledrejection', handleRejection);
+  };
+}
@@ -0,0 +1,117 @@
+/**
+ * 版本状态存储适配器
+ * 
+ * @remarks
+ * 版本检查器通过存储适配器持久化基线版本标记和已确认的版本,
+ * 使页面刷新或新开标签页后仍能与上一次已知的版本进行比较。
+ */
+import { VersionStorage, VersionStorageOption } from './types';
+
+/**
+ * 持久化的版本状态
+ */
+export interface PersistedVersionState {
+  /** 基线版本标记 */
+  versionTag: string | null;
+  /** 已确认(不再提示)的版本标记 */
+  acknowledged: string[];
+}
+
+/** 最多保留的已确认版本数量 */
+const MAX_ACKNOWLEDGED = 20;
+
+/**
+ * 内存存储适配器
+ * 
+ * @remarks
+ * 数据仅在当前检查器实例内有效,是默认的存储方式
+ */
+export class MemoryStorage implements VersionStorage {
+  /**
+   * 存储的数据
+   * @private
+   */
+  private items: Map<string, string> = new Map();
+
+  public getItem(key: string): string | null {
+    return this.items.get(key) ?? null;
+  }
+
+  public setItem(key: string, value: string): void {
+    this.items.set(key, value);
+  }
+
+  public removeItem(key: string): void {
+    this.items.delete(key);
+  }
+}
+
+/**
+ * 根据配置创建存储适配器
+ * 
+ * @param option - 存储配置
+ * @returns 存储适配器,浏览器存储不可用(如 SSR 或隐私模式)时回退到内存存储
+ */
+export function createStorage(option: VersionStorageOption): VersionStorage {
+  if (typeof option === 'object') {
+    return option;
+  }
+
+  try {
+    if (option === 'local' && typeof localStorage !== 'undefined') {
+      return localStorage;
+    }
+    if (option === 'session' && typeof sessionStorage !== 'undefined') {
+      return sessionStorage;
+    }
+  } catch {
+    // 访问 localStorage/sessionStorage 在部分浏览器的隐私模式下会抛出异常
+  }
+
+  return new MemoryStorage();
+}
+
+/**
+ * 读取持久化的版本状态
+ * 
+ * @param storage - 存储适配器
+ * @param key - 存储键名
+ * @returns 版本状态,不存在或数据损坏时返回空状态
+ */
+export function loadVersionState(storage: VersionStorage, key: string): PersistedVersionState {
+  const empty: PersistedVersionState = { versionTag: null, acknowledged: [] };
+
+  try {
+    const raw = storage.getItem(key);
+    if (!raw) {
+      return empty;
+    }
+    const parsed = JSON.parse(raw);
+    return {
+      versionTag: typeof parsed.versionTag === 'string' ? parsed.versionTag : null,
+      acknowledged: Array.isArray(parsed.acknowledged)
+        ? parsed.acknowledged.filter((tag: unknown) => typeof tag === 'string')
+        : []
+    };
+  } catch {
+    return empty;
+  }
+}
+
+/**
+ * 写入版本状态
+ * 
+ * @param storage - 存储适配器
+ * @param key - 存储键名
+ * @param state - 版本状态,已确认版本只保留最近的 MAX_ACKNOWLEDGED 个
+ */
+export function saveVersionState(storage: VersionStorage, key: string, state: PersistedVersionState): void {
+  try {
+    storage.setItem(key, JSON.stringify({
+      versionTag: state.versionTag,
+      acknowledged: state.acknowledged.slice(-MAX_ACKNOWLEDGED)
+    }));
+  } catch {
+    // 存储已满或不可写时放弃持久化,不影响版本检查
+  }
+}
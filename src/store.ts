@@ -0,0 +1,150 @@
+/**
+ * 框架适配器共享的版本状态仓库
+ * 
+ * @remarks
+ * React 和 Vue 适配器都通过该模块获取版本检查器。同一个 versionUrl 只会创建一个检查器,
+ * 多个组件共享同一份状态;最后一个使用者释放后销毁检查器。
+ * 
+ * 核心通过包入口 version-sentinel 引入,适配器构建时不打包核心,
+ * 与应用直接引入的 version-sentinel 共享同一份 VersionChecker 和错误类,instanceof 判断才能成立。
+ */
+import { VersionChecker } from 'version-sentinel';
+import { VersionCheckerOptions, VersionInfo } from './types';
+
+/**
+ * 适配器暴露的版本状态
+ */
+export interface VersionSentinelState {
+  /** 是否检测到更新,检测到后保持为 true 直到页面刷新 */
+  updateAvailable: boolean;
+  /** 最近一次获取到的版本信息 */
+  latest: VersionInfo | null;
+  /** 最近一次检查的错误,检查成功后清空 */
+  error: unknown;
+  /** 是否正在检查 */
+  checking: boolean;
+}
+
+/**
+ * 版本状态仓库
+ */
+export interface VersionStore {
+  /** 共享的版本检查器 */
+  readonly checker: VersionChecker;
+  /** 获取当前状态,状态不变时返回同一个对象 */
+  getState(): VersionSentinelState;
+  /** 订阅状态变化,返回取消订阅函数 */
+  subscribe(listener: () => void): () => void;
+  /** 手动检查一次,失败时返回 null(错误记录在状态中) */
+  check(): Promise<VersionInfo | null>;
+  /** 刷新页面,等同于 checker.reload() */
+  reload(): void;
+}
+
+/**
+ * 仓库注册表中的条目
+ */
+interface StoreEntry {
+  store: VersionStore;
+  refCount: number;
+  dispose: () => void;
+}
+
+/** 初始状态 */
+export const INITIAL_STATE: VersionSentinelState = {
+  updateAvailable: false,
+  latest: null,
+  error: null,
+  checking: false
+};
+
+/** 以 versionUrl 为键的仓库注册表 */
+const registry: Map<string, StoreEntry> = new Map();
+
+/**
+ * 获取(或创建)指定 versionUrl 的共享仓库
+ * 
+ * @param options - 版本检查器配置选项,仅在首次创建时生效
+ * @returns 共享仓库,使用完毕后需要调用 releaseStore 释放
+ */
+export function acquireStore(options: VersionCheckerOptions = {}): VersionStore {
+  const key = options.versionUrl ?? '/';
+  const existing = registry.get(key);
+  if (existing) {
+    existing.refCount++;
+    return existing.store;
+  }
+
+  const entry = createStoreEntry(options);
+  registry.set(key, entry);
+  return entry.store;
+}
+
+/**
+ * 释放共享仓库
+ * 
+ * @param store - 通过 acquireStore 获取的仓库
+ * 
+ * @remarks
+ * 最后一个使用者释放后会销毁检查器，移除其事件监听、等待中的自动刷新和页面事件监听
+ */
+export function releaseStore(store: VersionStore): void {
+  registry.forEach((entry, key) => {
+    if (entry.store !== store) {
+      return;
+    }
+    entry.refCount--;
+    if (entry.refCount <= 0) {
+      registry.delete(key);
+      entry.dispose();
+    }
+  });
+}
+
+/**
+ * 创建仓库及其注册表条目
+ * 
+ * @param options - 版本检查器配置选项
+ * @returns 注册表条目
+ */
+function createStoreEntry(options: VersionCheckerOptions): StoreEntry {
+  const checker = new VersionChecker(options);
+  const listeners: Set<() => void> = new Set();
+  let state = INITIAL_STATE;
+
+  const setState = (patch: Partial<VersionSentinelState>) => {
+    state = { ...state, ...patch };
+    listeners.forEach(listener => listener());
+  };
+
+  const unsubscribes = [
+    checker.on('check', () => setState({ checking: true })),
+    checker.on('version', event => setState({ latest: event.payload, error: null, checking: false })),
+    checker.on('update', () => setState({ updateAvailable: true })),
+    checker.on('error', event => setState({ error: event.payload, checking: false })),
+    checker.on('stop', () => setState({ checking: false }))
+  ];
+
+  const store: VersionStore = {
+    checker,
+    getState: () => state,
+    subscribe: listener => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    check: () => checker.check().catch(() => null),
+    reload: () => checker.reload()
+  };
+
+  return {
+    store,
+    refCount: 1,
+    dispose: () => {
+      unsubscribes.forEach(unsubscribe => unsubscribe());
+      listeners.clear();
+      checker.destroy();
+    }
+  };
+}
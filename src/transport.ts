@@ -0,0 +1,165 @@
+/**
+ * 服务端推送传输层
+ * 
+ * @remarks
+ * 版本检查器默认通过 fetch 定期轮询 versionUrl。配置推送传输后,
+ * 服务端可以在发布完成时立即推送版本消息,推送的消息与轮询结果走相同的版本比较和事件流程。
+ * 推送连接断开期间,检查器自动回退到轮询。
+ */
+import { VersionTransport, VersionTransportHandlers } from './types';
+
+/**
+ * Server-Sent Events 传输
+ * 
+ * @remarks
+ * 监听 EventSource 的指定事件(默认 'message'),事件数据即版本消息。
+ * 连接出错时关闭 EventSource,由版本检查器按退避策略重连,而不是使用浏览器内置的重连。
+ * 
+ * @example
+ * ```typescript
+ * createVersionChecker({
+ *   transport: new EventSourceTransport('/api/releases/stream', 'release')
+ * });
+ * ```
+ */
+export class EventSourceTransport implements VersionTransport {
+  /**
+   * SSE 地址
+   * @private
+   */
+  private readonly url: string;
+
+  /**
+   * 携带版本消息的事件名称
+   * @private
+   */
+  private readonly eventName: string;
+
+  /**
+   * 当前连接
+   * @private
+   */
+  private source: EventSource | null = null;
+
+  /**
+   * @param url - SSE 地址
+   * @param eventName - 携带版本消息的事件名称
+   */
+  constructor(url: string, eventName = 'message') {
+    this.url = url;
+    this.eventName = eventName;
+  }
+
+  public connect(handlers: VersionTransportHandlers): void {
+    const source = new EventSource(this.url);
+    this.source = source;
+
+    source.onopen = () => handlers.onOpen();
+    source.addEventListener(this.eventName, event => handlers.onMessage(String((event as MessageEvent).data)));
+    source.onerror = event => {
+      this.close();
+      handlers.onClose(event);
+    };
+  }
+
+  public close(): void {
+    if (this.source) {
+      this.source.onopen = null;
+      this.source.onerror = null;
+      this.source.close();
+      this.source = null;
+    }
+  }
+}
+
+/**
+ * WebSocket 传输
+ * 
+ * @remarks
+ * 每条文本消息即一条版本消息,连接关闭或出错时交由版本检查器重连
+ * 
+ * @example
+ * ```typescript
+ * createVersionChecker({
+ *   transport: new WebSocketTransport('wss://example.com/releases')
+ * });
+ * ```
+ */
+export class WebSocketTransport implements VersionTransport {
+  /**
+   * WebSocket 地址
+   * @private
+   */
+  private readonly url: string;
+
+  /**
+   * 当前连接
+   * @private
+   */
+  private socket: WebSocket | null = null;
+
+  /**
+   * @param url - WebSocket 地址
+   */
+  constructor(url: string) {
+    this.url = url;
+  }
+
+  public connect(handlers: VersionTransportHandlers): void {
+    const socket = new WebSocket(this.url);
+    this.socket = socket;
+
+    socket.onopen = () => handlers.onOpen();
+    socket.onmessage = event => handlers.onMessage(String(event.data));
+    socket.onclose = event => {
+      this.socket = null;
+      handlers.onClose(event);
+    };
+  }
+
+  public close(): void {
+    if (this.socket) {
+      this.socket.onclose = null;
+      this.socket.close();
+      this.socket = null;
+    }
+  }
+}
+
+/**
+ * 把相对地址转换为 WebSocket 地址
+ * 
+ * @param url - 原始地址
+ * @returns ws:// 或 wss:// 地址
+ */
+function toWebSocketUrl(url: string): string {
+  if (/^wss?:\/\//i.test(url) || typeof location === 'undefined') {
+    return url;
+  }
+  const resolved = new URL(url, location.href);
+  resolved.protocol = resolved.protocol === 'https:' ? 'wss:' : 'ws:';
+  return resolved.toString();
+}
+
+/**
+ * 根据配置创建推送传输
+ * 
+ * @param transport - 传输方式或自定义传输实例
+ * @param url - 推送地址
+ * @returns 推送传输实例,轮询模式下返回 null
+ */
+export function createPushTransport(
+  transport: 'polling' | 'sse' | 'websocket' | VersionTransport,
+  url: string
+): VersionTransport | null {
+  switch (transport) {
+    case 'polling':
+      return null;
+    case 'sse':
+      return new EventSourceTransport(url);
+    case 'websocket':
+      return new WebSocketTransport(toWebSocketUrl(url));
+    default:
+      return transport;
+  }
+}
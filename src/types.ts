@@ -19,12 +19,150 @@ export interface VersionCheckerOptions {
   
   /** 
    * 自定义版本比较策略
-   * @remarks 支持三种比较策略:
+   * @remarks 支持四种比较策略:
    * - etag: 使用HTTP ETag头进行比较
    * - last-modified: 使用HTTP Last-Modified头进行比较 
-   * - custom: 使用自定义比较逻辑
+   * - custom: 使用自定义比较逻辑,提供 versionExtractor 时由其提取版本,否则读取 x-version 头并回退到 ETag
+   * - json: 解析响应体(版本清单)并读取 versionField 指定的字段
    */
-  compareStrategy?: 'etag' | 'last-modified' | 'custom';
+  compareStrategy?: 'etag' | 'last-modified' | 'custom' | 'json';
+
+  /** 
+   * JSON 版本清单中版本号字段的路径
+   * @remarks 仅在 compareStrategy 为 'json' 时生效,支持点号分隔的嵌套路径,如 'meta.version'
+   * @defaultValue 'version'
+   */
+  versionField?: string;
+
+  /** 
+   * 自定义版本提取函数
+   * @remarks 仅在 compareStrategy 为 'custom' 时生效,接收完整的 Response,返回(或异步返回)版本标记
+   */
+  versionExtractor?: VersionExtractor;
+
+  /** 
+   * 自定义版本比较函数
+   * @remarks 判断新版本标记相对当前版本标记是否构成更新,默认在两者不相等时视为更新
+   */
+  versionComparator?: VersionComparator;
+
+  /** 
+   * 是否按语义化版本比较
+   * @remarks 开启后,新旧版本标记均为合法的语义化版本时按版本先后判断更新,并在 VersionInfo 中给出更新级别;
+   * 任意一方无法解析时回退到 versionComparator
+   * @defaultValue false
+   */
+  semver?: boolean;
+
+  /** 
+   * semver 模式下对版本降级的处理方式
+   * @remarks 
+   * - ignore: 忽略降级
+   * - report: 触发 'downgrade' 事件
+   * 
+   * 两种方式都不会更新当前版本标记
+   * @defaultValue 'ignore'
+   */
+  downgradePolicy?: 'ignore' | 'report';
+
+  /** 
+   * 是否启用自适应调度
+   * @remarks 开启后,页面隐藏(document.visibilityState 为 hidden)或离线(navigator.onLine 为 false)时暂停检查;
+   * 页面重新可见、网络恢复或窗口获得焦点时立即检查一次
+   * @defaultValue false
+   */
+  adaptiveScheduling?: boolean;
+
+  /** 
+   * 自适应调度下即时检查的防抖时间(毫秒)
+   * @remarks 短时间内多个恢复事件(如 visibilitychange 与 focus 同时触发)只会引起一次检查
+   * @defaultValue 1000
+   */
+  resumeCheckDebounce?: number;
+
+  /** 
+   * 是否开启跨标签页协调
+   * @remarks 开启后,同源且 versionUrl 相同的标签页通过 BroadcastChannel(或 localStorage)选举出一个 leader,
+   * 只有 leader 发起检查并把结果广播给其他标签页,其他标签页在本地比较版本并照常触发 'update' 事件。
+   * leader 关闭后由其他标签页接任
+   * @defaultValue false
+   */
+  crossTab?: boolean;
+
+  /** 
+   * 跨标签页协调使用的通道名称前缀
+   * @remarks 实际通道名称为 `${crossTabChannel}:${versionUrl}`
+   * @defaultValue 'version-sentinel'
+   */
+  crossTabChannel?: string;
+
+  /** 
+   * 基线版本和已确认版本的存储方式
+   * @remarks 
+   * - local: 使用 localStorage,刷新和新开标签页后保留
+   * - session: 使用 sessionStorage,仅在当前标签页会话内保留
+   * - memory: 仅保存在当前实例内存中
+   * - 也可以传入实现了 VersionStorage 接口的自定义适配器
+   * @defaultValue 'memory'
+   */
+  storage?: VersionStorageOption;
+
+  /** 
+   * 存储键名前缀
+   * @remarks 实际键名为 `${storageKey}:${versionUrl}`
+   * @defaultValue 'version-sentinel'
+   */
+  storageKey?: string;
+
+  /** 
+   * 初始基线版本标记
+   * @remarks 通常由构建时常量注入,代表当前运行的版本。设置后优先于存储中的基线,
+   * 首次检查即可发现页面加载期间发布的更新
+   * @defaultValue null
+   */
+  initialVersion?: string | null;
+
+  /** 
+   * 是否读取构建插件注入的版本号作为初始基线版本
+   * @remarks 需要配合 version-sentinel/plugin 使用,读取注入的 __VERSION_SENTINEL_VERSION__ 常量;
+   * initialVersion 已设置时以 initialVersion 为准
+   * @defaultValue false
+   */
+  useBuildVersion?: boolean;
+
+  /** 
+   * 版本消息的传输方式
+   * @remarks 
+   * - polling: 通过 fetch 定期轮询 versionUrl
+   * - sse: 通过 EventSource 接收服务端推送
+   * - websocket: 通过 WebSocket 接收服务端推送
+   * - 也可以传入实现了 VersionTransport 接口的自定义传输
+   * 
+   * 推送消息可以是版本号字符串,也可以是 JSON 版本清单(按 versionField 读取版本号)。
+   * 推送连接正常时跳过定期轮询,断开期间回退到轮询并按指数退避重连
+   * @defaultValue 'polling'
+   */
+  transport?: 'polling' | 'sse' | 'websocket' | VersionTransport;
+
+  /** 
+   * 推送地址
+   * @remarks 未设置时使用 versionUrl;websocket 方式下相对地址会转换为 ws/wss 地址
+   */
+  pushUrl?: string;
+
+  /** 
+   * 推送连接断开后的最大重连次数
+   * @remarks 超过次数后不再重连,持续使用轮询
+   * @defaultValue 5
+   */
+  pushReconnectTimes?: number;
+
+  /** 
+   * 推送重连的基础间隔(毫秒)
+   * @remarks 按指数增长,不超过 maxRetryInterval
+   * @defaultValue 1000
+   */
+  pushReconnectInterval?: number;
   
   /** 
    * 是否自动开始检查
@@ -43,8 +181,464 @@ export interface VersionCheckerOptions {
    * @defaultValue 3000
    */
   retryInterval?: number;
+
+  /** 
+   * 重试间隔的退避方式
+   * @remarks 
+   * - fixed: 每次重试都等待 retryInterval
+   * - exponential: 以 retryInterval 为基数指数增长,不超过 maxRetryInterval
+   * @defaultValue 'fixed'
+   */
+  retryBackoff?: 'fixed' | 'exponential';
+
+  /** 
+   * 重试间隔上限(毫秒)
+   * @remarks 用于 exponential 退避和 decorrelated 抖动
+   * @defaultValue 30000
+   */
+  maxRetryInterval?: number;
+
+  /** 
+   * 重试间隔的随机抖动方式
+   * @remarks 
+   * - none: 不加入抖动
+   * - full: 在 0 到计算出的间隔之间随机取值
+   * - decorrelated: 在 retryInterval 到上一次间隔的 3 倍之间随机取值,不超过 maxRetryInterval
+   * 
+   * 429/503 响应携带 Retry-After 头时,始终以服务端要求的等待时间为准
+   * @defaultValue 'none'
+   */
+  retryJitter?: 'none' | 'full' | 'decorrelated';
+
+  /** 
+   * 版本检查请求的 HTTP 方法
+   * @remarks 
+   * etag、last-modified 等只读取响应头的策略可以使用 HEAD 减少流量;
+   * json 策略需要读取响应体,始终使用 GET
+   * @defaultValue 'GET'
+   */
+  method?: 'GET' | 'HEAD';
+
+  /** 
+   * 版本检查请求附加的请求头
+   * @remarks 用于携带鉴权令牌等信息,与默认的 Cache-Control: no-cache 合并,同名时以这里为准
+   * @defaultValue {}
+   */
+  headers?: Record<string, string>;
+
+  /** 
+   * 版本检查请求的凭据模式
+   * @remarks 与 fetch 的 credentials 选项一致,跨域携带 cookie 时设为 'include'
+   * @defaultValue 'same-origin'
+   */
+  credentials?: RequestCredentials;
+
+  /** 
+   * 是否在请求地址上附加时间戳参数以绕过缓存
+   * @remarks 
+   * - false: 不附加
+   * - true: 附加 _t=时间戳
+   * - 字符串: 以该字符串为参数名附加时间戳
+   * 
+   * 适用于 CDN 或代理忽略 Cache-Control 请求头的场景
+   * @defaultValue false
+   */
+  cacheBuster?: boolean | string;
+
+  /** 
+   * 版本检查请求的超时时间(毫秒)
+   * @remarks 包括等待响应和读取响应体的时间,超时后中止请求并以 TimeoutError 失败,按普通错误重试;设为 0 不限制
+   * @defaultValue 10000
+   */
+  requestTimeout?: number;
+
+  /** 
+   * 两次检查之间的最小间隔(毫秒)
+   * @remarks 距离上一次请求不足该间隔时,check() 会等到间隔结束再发起请求,避免频繁手动检查压垮服务端
+   * @defaultValue 0
+   */
+  minCheckInterval?: number;
+
+  /** 
+   * 事件监听器抛出异常或返回的 Promise 被拒绝时的处理函数
+   * @remarks 监听器的异常不会中断其他监听器,也不会影响版本检查
+   * @defaultValue 使用 logger.error 输出;未配置 logger 时使用 console.error 输出
+   */
+  onListenerError?: (error: unknown, event: VersionCheckerEvent) => void;
+
+  /** 
+   * 是否在发现更新时读取发布信息
+   * @remarks 配置了 releaseNotesUrl 时请求该地址,否则从版本清单(json 策略)中读取 notes、releaseDate、critical 字段。
+   * 读取结果按版本缓存,写入 VersionInfo.release
+   * @defaultValue false
+   */
+  releaseMetadata?: boolean;
+
+  /** 
+   * 更新日志地址模板
+   * @remarks {version} 会被替换为新版本号,如 '/changelog/{version}.json'。
+   * JSON 响应按 notes、releaseDate、critical 字段解析,其他响应整体作为发布说明。
+   * 请求同样受 requestTimeout 限制,超时或失败时不影响更新通知
+   */
+  releaseNotesUrl?: string;
+
+  /** 
+   * 请求更新日志时携带的请求头
+   * @remarks 更新日志可能部署在其他域名,headers 中的鉴权等请求头不会自动携带到 releaseNotesUrl,需要时在这里显式配置
+   * @defaultValue {}
+   */
+  releaseNotesHeaders?: Record<string, string>;
+
+  /** 
+   * 发现更新后的自动刷新策略
+   * @remarks 
+   * - manual: 不自动刷新,由应用自行处理 'update' 事件
+   * - immediate: 立即刷新
+   * - route-change: 下一次 SPA 路由切换时刷新,popstate 和 hashchange 自动处理,其他路由切换需调用 notifyRouteChange()
+   * - idle: 用户空闲 reloadIdleTimeout 毫秒后刷新
+   * - hidden: 标签页下一次进入后台时刷新
+   * 
+   * 刷新前会调用通过 addReloadGuard() 注册的守卫,任意守卫返回 false 时推迟刷新并触发 'reload-pending' 事件
+   * @defaultValue 'manual'
+   */
+  reloadPolicy?: ReloadPolicy;
+
+  /** 
+   * idle 刷新策略下判定用户空闲的时间(毫秒)
+   * @defaultValue 60000
+   */
+  reloadIdleTimeout?: number;
+
+  /** 
+   * 自动刷新时执行的操作
+   * @defaultValue () => checker.reload()
+   */
+  onReload?: (info: VersionInfo) => void;
+
+  /** 
+   * 是否集成 Service Worker 更新
+   * @remarks 为 true 时使用当前页面的 Service Worker 注册,也可以直接传入注册对象。
+   * 发现更新后调用 registration.update(),等到新的 worker 进入 installed 状态才触发 'update' 事件;
+   * reload() 会通知等待中的 worker 激活,在 controllerchange 后再刷新页面。
+   * 页面未注册 Service Worker 时按未开启处理
+   * @defaultValue false
+   */
+  serviceWorker?: boolean | ServiceWorkerRegistration;
+
+  /** 
+   * 通知等待中的 worker 执行 skipWaiting 的消息
+   * @remarks Service Worker 需要在 message 事件中识别该消息并调用 self.skipWaiting()
+   * @defaultValue { type: 'SKIP_WAITING' }
+   */
+  serviceWorkerMessage?: unknown;
+
+  /** 
+   * 等待新的 Service Worker 安装完成、以及 reload() 等待其接管页面的最长时间(毫秒)
+   * @remarks 安装超时后 'update' 事件照常触发,serviceWorkerReady 为 false;安装仍在后台继续,完成后 reload() 会先激活新的 worker。
+   * stop() 同样会中断等待。reload() 等待接管超时(如 worker 没有处理 serviceWorkerMessage)时直接刷新页面。设为 0 不限制
+   * @defaultValue 30000
+   */
+  serviceWorkerTimeout?: number;
+
+  /** 
+   * 是否检测过期资源
+   * @remarks 运行期间监听页面的 error 和 unhandledrejection 事件,识别 ChunkLoadError、
+   * "Failed to fetch dynamically imported module" 等代码块加载失败。发现时触发 'stale-assets' 事件并立即检查
+   * @defaultValue false
+   */
+  detectStaleAssets?: boolean;
+
+  /** 
+   * 新版本标记需要被确认的次数
+   * @remarks 发布期间不同 CDN 节点可能返回不同的版本标记。大于 1 时,新版本标记需要连续 N 次检查都出现,
+   * 或由 N 个不同的节点(见 edgeHeader)返回,才视为版本变化;确认前 VersionInfo.unconfirmed 为 true。
+   * 推送的版本来自服务端,不需要确认
+   * @defaultValue 1
+   */
+  confirmationThreshold?: number;
+
+  /** 
+   * 标识 CDN 节点的响应头
+   * @remarks 如 'x-served-by'、'x-amz-cf-pop'。配置后由不同节点返回的新版本标记分别计入确认次数,
+   * 其间旧节点返回旧版本标记不会清空已确认的节点
+   */
+  edgeHeader?: string;
+
+  /** 
+   * 是否发送条件请求
+   * @remarks etag 策略下以当前版本标记发送 If-None-Match,last-modified 策略下发送 If-Modified-Since。
+   * 服务端返回 304 时视为没有更新,不再下载完整响应。其他策略不发送条件请求头
+   * @defaultValue true
+   */
+  conditionalRequests?: boolean;
+
+  /** 
+   * 日志输出
+   * @remarks 输出调度决策、请求详情、版本提取结果和重试决策等结构化日志,可以直接传入 console。
+   * 默认不输出日志;页面地址带有 ?version-sentinel-debug 参数,或 localStorage 中设置了
+   * version-sentinel-debug 时,默认输出 debug 级别的 console 日志
+   * @defaultValue 不输出任何日志
+   */
+  logger?: VersionCheckerLogger;
+}
+
+/**
+ * 版本存储适配器接口
+ * 
+ * @remarks
+ * 与 Web Storage API 的同名方法保持一致,localStorage 和 sessionStorage 可以直接使用
+ */
+export interface VersionStorage {
+  /** 读取键值,不存在时返回 null */
+  getItem(key: string): string | null;
+  /** 写入键值 */
+  setItem(key: string, value: string): void;
+  /** 删除键值 */
+  removeItem(key: string): void;
+}
+
+/**
+ * 推送传输的回调
+ */
+export interface VersionTransportHandlers {
+  /** 连接建立时调用 */
+  onOpen(): void;
+  /** 收到版本消息时调用 */
+  onMessage(data: string): void;
+  /** 连接断开或建立失败时调用 */
+  onClose(reason?: unknown): void;
+}
+
+/**
+ * 推送传输接口
+ * 
+ * @remarks
+ * 断开后版本检查器会再次调用 connect() 重连,实现需要支持多次连接
+ */
+export interface VersionTransport {
+  /** 建立连接 */
+  connect(handlers: VersionTransportHandlers): void;
+  /** 主动关闭连接,关闭后不应再调用 onClose */
+  close(): void;
+}
+
+/**
+ * 'disconnect' 事件携带的数据
+ */
+export interface DisconnectEventPayload {
+  /** 断开原因 */
+  reason: unknown;
+  /** 是否会重连 */
+  willReconnect: boolean;
+  /** 第几次重连,不再重连时为 undefined */
+  attempt?: number;
+  /** 重连前的等待时间(毫秒),不再重连时为 undefined */
+  delay?: number;
+}
+
+/**
+ * 存储配置类型
+ */
+export type VersionStorageOption = 'local' | 'session' | 'memory' | VersionStorage;
+
+/**
+ * 版本提取函数类型
+ * 
+ * @param response - 版本检查请求的响应
+ * @returns 版本标记,无法提取时返回 null
+ */
+export type VersionExtractor = (response: Response) => Promise<string | null> | string | null;
+
+/**
+ * 版本比较函数类型
+ * 
+ * @param currentVersion - 当前版本标记
+ * @param newVersion - 新获取的版本标记
+ * @returns 新版本标记是否构成更新
+ */
+export type VersionComparator = (currentVersion: string, newVersion: string) => boolean;
+
+/**
+ * 版本更新级别
+ * 
+ * @remarks
+ * semver 模式下新旧版本之间发生变化的最高级别
+ */
+export type UpdateSeverity = 'major' | 'minor' | 'patch' | 'prerelease';
+
+/**
+ * 日志级别
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/**
+ * 日志输出接口
+ * 
+ * @remarks
+ * 每个级别接收一条简短的消息和可选的结构化上下文,与 console 的调用方式兼容
+ */
+export interface VersionCheckerLogger {
+  /** 调试信息,如调度决策、请求详情和版本提取结果 */
+  debug(message: string, context?: Record<string, unknown>): void;
+  /** 重要状态变化,如发现更新、暂停和恢复 */
+  info(message: string, context?: Record<string, unknown>): void;
+  /** 可恢复的问题,如请求失败后重试、版本回滚 */
+  warn(message: string, context?: Record<string, unknown>): void;
+  /** 不可恢复的错误,如重试耗尽、监听器异常 */
+  error(message: string, context?: Record<string, unknown>): void;
 }
 
+/**
+ * 更新要求
+ * 
+ * @remarks
+ * - optional: 可选更新,用户可以稍后刷新或忽略
+ * - required: 强制更新,服务端声明了 mandatory,或当前运行的版本低于最低支持版本
+ */
+export type UpdateRequirement = 'optional' | 'required';
+
+/**
+ * 自适应调度的暂停原因
+ * 
+ * @remarks
+ * - hidden: 页面不可见
+ * - offline: 网络离线
+ */
+export type PauseReason = 'hidden' | 'offline';
+
+/**
+ * 自适应调度触发即时检查的原因
+ * 
+ * @remarks
+ * - visible: 页面重新可见
+ * - online: 网络恢复
+ * - focus: 窗口获得焦点
+ */
+export type ResumeTrigger = 'visible' | 'online' | 'focus';
+
+/**
+ * 自动刷新策略
+ */
+export type ReloadPolicy = 'manual' | 'immediate' | 'route-change' | 'idle' | 'hidden';
+
+/**
+ * 刷新守卫
+ * 
+ * @param info - 待刷新的版本信息
+ * @returns 返回 false 时否决本次刷新,其他返回值均允许刷新
+ */
+export type ReloadGuard = (info: VersionInfo) => boolean | void;
+
+/**
+ * 'reload-pending' 事件携带的数据
+ */
+export interface ReloadPendingEventPayload {
+  /** 待刷新的版本信息 */
+  info: VersionInfo;
+  /** 当前的刷新策略 */
+  policy: ReloadPolicy;
+  /** 否决本次刷新的守卫名称,刚安排刷新、等待时机时为空数组 */
+  blockedBy: string[];
+}
+
+/**
+ * 'check' 事件携带的数据
+ */
+export interface CheckEventPayload {
+  /** 本次请求是否为条件请求 */
+  conditional: boolean;
+  /** 
+   * 发起本次请求前,条件请求累计节省的字节数
+   * @remarks 'check' 事件在请求前触发,不包括本次请求;本次请求节省的字节数见 VersionInfo.bytesSaved。
+   * 每次 304 响应按上一次完整 GET 响应的 Content-Length 计入,HEAD 请求不计入
+   */
+  bytesSaved: number;
+}
+
+/**
+ * 版本检查统计
+ * 
+ * @remarks
+ * 只统计向 versionUrl 发出的请求,推送消息和跨标签页同步的版本不计入,被 stop() 取消的请求也不计入
+ */
+export interface VersionCheckerStats {
+  /** 已完成的请求次数,包括重试 */
+  requests: number;
+  /** 成功的请求次数 */
+  successes: number;
+  /** 失败的请求次数 */
+  failures: number;
+  /** 重试次数 */
+  retries: number;
+  /** 连续失败的请求次数,请求成功后归零 */
+  consecutiveFailures: number;
+  /** 条件请求命中(304)的次数 */
+  notModified: number;
+  /** 条件请求累计节省的字节数 */
+  bytesSaved: number;
+  /** 最近一次请求的耗时(毫秒),尚未完成请求时为 null */
+  lastLatency: number | null;
+  /** 所有请求的平均耗时(毫秒),尚未完成请求时为 null */
+  averageLatency: number | null;
+  /** 最近一次请求的 HTTP 状态码,未收到响应(如网络错误、超时)时为 null */
+  lastStatus: number | null;
+  /** 最近一次成功请求的时间戳,尚未成功时为 null */
+  lastSuccessTime: number | null;
+  /** 距最近一次成功请求的时间(毫秒),尚未成功时为 null */
+  timeSinceLastSuccess: number | null;
+}
+
+/**
+ * 'metrics' 事件携带的数据
+ */
+export interface MetricsEventPayload {
+  /** 本次请求的耗时(毫秒) */
+  latency: number;
+  /** 本次请求的 HTTP 状态码,未收到响应时为 null */
+  status: number | null;
+  /** 本次请求是否成功 */
+  success: boolean;
+  /** 本次请求失败的原因,成功时不存在 */
+  error?: unknown;
+  /** 记录本次请求后的统计快照 */
+  stats: VersionCheckerStats;
+}
+
+/**
+ * 'stale-assets' 事件携带的数据
+ */
+export interface StaleAssetsEventPayload {
+  /** 代码块加载失败的错误 */
+  error: unknown;
+  /** 捕获到错误的页面事件 */
+  source: 'error' | 'unhandledrejection';
+}
+
+/**
+ * 'retry' 事件携带的数据
+ */
+export interface RetryEventPayload {
+  /** 导致重试的错误 */
+  error: unknown;
+  /** 当前是第几次重试,从 1 开始 */
+  retryCount: number;
+  /** 即将发起的是第几次请求(首次请求为 1) */
+  attempt: number;
+  /** 本次重试前的等待时间(毫秒) */
+  delay: number;
+}
+
+/**
+ * 解析后的版本检查器配置
+ * 
+ * @remarks
+ * 合并默认值后的配置,没有默认值的选项保持可选
+ * @internal
+ */
+export type ResolvedVersionCheckerOptions =
+  Required<Omit<VersionCheckerOptions, 'versionExtractor' | 'pushUrl' | 'releaseNotesUrl' | 'edgeHeader'>> &
+  Pick<VersionCheckerOptions, 'versionExtractor' | 'pushUrl' | 'releaseNotesUrl' | 'edgeHeader'>;
+
 /**
  * 版本信息接口
  * 
@@ -60,39 +654,307 @@ export interface VersionInfo {
   updateAvailable: boolean;
   /** 版本检查时间戳 */
   timestamp: number;
+  /** 
+   * 解析得到的版本清单
+   * @remarks 仅在 compareStrategy 为 'json' 时存在,包含构建时间等元数据
+   */
+  manifest?: VersionManifest;
+  /** 
+   * 更新级别
+   * @remarks 仅在 semver 模式下且新旧版本均可解析时存在
+   */
+  severity?: UpdateSeverity;
+  /** 
+   * 是否为版本降级
+   * @remarks 仅在 semver 模式下检测到降级时为 true
+   */
+  downgrade?: boolean;
+  /** 
+   * 是否回到了出现过的旧版本标记
+   * @remarks 非 semver 比较下,确认的版本标记曾经作为基线出现、且早于当前基线时为 true,此时不会触发 'update' 事件
+   */
+  rollback?: boolean;
+  /** 
+   * 新版本标记是否尚未确认
+   * @remarks 仅在 confirmationThreshold 大于 1、且新版本标记还没有达到确认次数时为 true
+   */
+  unconfirmed?: boolean;
+  /** 
+   * 服务端是否返回了 304
+   * @remarks 仅在条件请求命中时为 true,此时 newVersion 为请求时的版本标记
+   */
+  notModified?: boolean;
+  /** 
+   * 本次条件请求节省的字节数
+   * @remarks 仅在 GET 请求命中 304 时存在,按上一次完整 GET 响应的 Content-Length 计入;累计值见 getStats()
+   */
+  bytesSaved?: number;
+  /** 
+   * 新版本是否已被确认
+   * @remarks 已通过 acknowledge() 确认的版本不会再触发 'update' 事件
+   */
+  acknowledged?: boolean;
+  /** 
+   * 新版本的发布信息
+   * @remarks 仅在开启 releaseMetadata 且发现更新、并成功读取到发布信息时存在
+   */
+  release?: ReleaseMetadata;
+  /** 
+   * 新的 Service Worker 是否已安装并等待激活
+   * @remarks 仅在开启 serviceWorker、页面注册了 Service Worker 且发现更新时存在。Service Worker 脚本没有变化或安装失败时为 false
+   */
+  serviceWorkerReady?: boolean;
+  /** 
+   * 更新要求
+   * @remarks 仅在发现更新时存在。版本清单或响应头声明了 mandatory,或页面实际运行的版本(initialVersion、构建注入的版本或第一次获取到的版本)
+   * 低于 minSupportedVersion 时为 'required'。版本标记不变、但尚未刷新的更新变为强制更新时,也会再次作为更新通知
+   */
+  requirement?: UpdateRequirement;
+  /** 
+   * 服务端声明的最低支持版本
+   * @remarks 仅在发现更新且版本清单或 X-Min-Supported-Version 响应头提供了该字段时存在
+   */
+  minSupportedVersion?: string;
 }
 
 /**
- * 版本检查器事件类型
+ * 发布信息
+ */
+export interface ReleaseMetadata {
+  /** 发布说明,未提供时为 null */
+  notes: string | null;
+  /** 发布日期(ISO 8601 字符串或原始字符串),未提供时为 null */
+  releaseDate: string | null;
+  /** 是否为关键更新 */
+  critical: boolean;
+}
+
+/**
+ * 版本清单接口
  * 
  * @remarks
- * 定义了版本检查器支持的所有事件类型
+ * 描述 version.json 等版本清单文件的结构,除版本号字段外允许携带任意构建元数据
  */
-export type VersionCheckerEventType = 
+export interface VersionManifest {
+  [key: string]: unknown;
+}
+
+/**
+ * 版本检查器的生命周期状态
+ * 
+ * @remarks
+ * - idle: 未启动,也没有正在进行的检查
+ * - running: 已启动,等待下一次定期检查
+ * - checking: 正在执行检查(包括等待 minCheckInterval)
+ * - backing-off: 检查失败,正在等待重试
+ * - paused: 已启动,但因页面隐藏或离线暂停检查
+ * - destroyed: 已调用 destroy(),不能再使用
+ * 
+ * 同时满足多个状态时,按 destroyed、backing-off、checking、paused、running 的顺序取第一个
+ */
+export type VersionCheckerStatus = 'idle' | 'running' | 'checking' | 'backing-off' | 'paused' | 'destroyed';
+
+/**
+ * 'statechange' 事件携带的数据
+ */
+export interface StateChangeEventPayload {
+  /** 新状态 */
+  status: VersionCheckerStatus;
+  /** 变化前的状态 */
+  previousStatus: VersionCheckerStatus;
+}
+
+/**
+ * 版本检查器事件映射表
+ * 
+ * @remarks
+ * 事件类型到事件数据类型的映射,on('update', callback) 等方法据此推断 event.payload 的类型
+ */
+export interface VersionCheckerEventMap {
   /** 发现新版本更新时触发 */
-  | 'update'      
-  /** 执行版本检查时触发 */
-  | 'check'       
+  update: VersionInfo;
+  /** 获取到服务端版本时触发,无论是否有更新 */
+  version: VersionInfo;
+  /** 执行版本检查、发起请求前触发 */
+  check: CheckEventPayload;
   /** 发生错误时触发 */
-  | 'error'       
+  error: unknown;
   /** 开始重试检查时触发 */
-  | 'retry'       
+  retry: RetryEventPayload;
   /** 开始版本检查时触发 */
-  | 'start'       
+  start: undefined;
   /** 停止版本检查时触发 */
-  | 'stop';       
+  stop: undefined;
+  /** semver 模式下检测到版本降级且 downgradePolicy 为 report 时触发 */
+  downgrade: VersionInfo;
+  /** 自适应调度下暂停检查时触发 */
+  pause: { reason: PauseReason };
+  /** 自适应调度下恢复检查时触发 */
+  resume: { reason: ResumeTrigger };
+  /** 推送连接建立时触发 */
+  connect: undefined;
+  /** 推送连接断开时触发 */
+  disconnect: DisconnectEventPayload;
+  /** 生命周期状态变化时触发 */
+  statechange: StateChangeEventPayload;
+  /** 安排了自动刷新,或自动刷新被守卫推迟时触发 */
+  'reload-pending': ReloadPendingEventPayload;
+  /** 非 semver 比较下回到出现过的旧版本标记时触发 */
+  rollback: VersionInfo;
+  /** 发现强制更新时在 'update' 之后触发,已确认的版本也会触发 */
+  'update-required': VersionInfo;
+  /** 检测到代码块加载失败时触发,随后立即检查 */
+  'stale-assets': StaleAssetsEventPayload;
+  /** 每次请求完成(成功或失败)后触发,被取消的请求不触发 */
+  metrics: MetricsEventPayload;
+}
+
+/**
+ * 版本检查器事件类型
+ * 
+ * @remarks
+ * 定义了版本检查器支持的所有事件类型
+ */
+export type VersionCheckerEventType = keyof VersionCheckerEventMap;
 
 /**
  * 版本检查器事件接口
  * 
  * @remarks
- * 定义了版本检查器事件的数据结构
+ * 定义了版本检查器事件的数据结构。不指定事件类型时为所有事件的联合类型,可以通过 type 字段区分
  */
-export interface VersionCheckerEvent {
-  /** 事件类型 */
-  type: VersionCheckerEventType;
-  /** 事件携带的数据 */
-  payload?: any;
-  /** 事件发生的时间戳 */
-  timestamp: number;
-} 
\ No newline at end of file
+export type VersionCheckerEvent<K extends VersionCheckerEventType = VersionCheckerEventType> = {
+  [E in K]: {
+    /** 事件类型 */
+    type: E;
+    /** 事件携带的数据 */
+    payload: VersionCheckerEventMap[E];
+    /** 事件发生的时间戳 */
+    timestamp: number;
+  };
+}[K];
+
+/**
+ * 事件监听器类型
+ * 
+ * @remarks
+ * 监听器可以是异步函数,返回的 Promise 被拒绝时交给 onListenerError 处理
+ */
+export type VersionCheckerListener<K extends VersionCheckerEventType = VersionCheckerEventType> =
+  (event: VersionCheckerEvent<K>) => unknown;
+
+/**
+ * 版本检查器组中的检查目标
+ * 
+ * @remarks
+ * 除 name 外与 VersionCheckerOptions 相同,每个目标可以使用独立的 versionUrl 和比较策略。
+ * 目标的检查由组统一调度,autoStart、adaptiveScheduling、crossTab 和 transport 选项不生效
+ */
+export interface VersionTarget extends VersionCheckerOptions {
+  /** 目标名称,在组内唯一 */
+  name: string;
+}
+
+/**
+ * 版本检查器组配置选项
+ */
+export interface VersionCheckerGroupOptions {
+  /** 
+   * 检查目标列表
+   */
+  targets: VersionTarget[];
+
+  /** 
+   * 默认检查间隔(毫秒)
+   * @remarks 目标未设置 checkInterval 时使用。组内只有一个定时器,按最短的间隔运行,
+   * 每个目标在达到自己的间隔时才会被检查
+   * @defaultValue 60000
+   */
+  checkInterval?: number;
+
+  /** 
+   * 是否自动开始检查
+   * @defaultValue true
+   */
+  autoStart?: boolean;
+
+  /** 
+   * 日志输出
+   * @remarks 作为目标检查器的默认 logger,目标可以单独配置
+   * @defaultValue 不输出任何日志,可通过 version-sentinel-debug 查询参数或 localStorage 开启
+   */
+  logger?: VersionCheckerLogger;
+
+  /** 
+   * 事件监听器抛出异常或返回的 Promise 被拒绝时的处理函数
+   * @defaultValue 使用 logger.error 输出;未配置 logger 时使用 console.error 输出
+   */
+  onListenerError?: (error: unknown, event: VersionCheckerGroupEvent) => void;
+}
+
+/**
+ * 组内目标的 'update' 事件携带的数据
+ */
+export interface TargetUpdateEventPayload {
+  /** 目标名称 */
+  target: string;
+  /** 目标的版本信息 */
+  info: VersionInfo;
+}
+
+/**
+ * 组内目标的 'error' 事件携带的数据
+ */
+export interface TargetErrorEventPayload {
+  /** 目标名称 */
+  target: string;
+  /** 检查失败的错误 */
+  error: unknown;
+}
+
+/**
+ * 组的 'change' 事件携带的数据
+ */
+export interface GroupChangeEventPayload {
+  /** 本轮检查中发现更新的目标名称 */
+  targets: string[];
+  /** 所有目标的最新版本信息 */
+  versions: Record<string, VersionInfo | null>;
+}
+
+/**
+ * 版本检查器组事件映射表
+ */
+export interface VersionCheckerGroupEventMap {
+  /** 某个目标发现新版本时触发 */
+  update: TargetUpdateEventPayload;
+  /** 某个目标检查失败(重试耗尽)时触发 */
+  error: TargetErrorEventPayload;
+  /** 一轮检查结束且至少一个目标发现新版本时触发 */
+  change: GroupChangeEventPayload;
+}
+
+/**
+ * 版本检查器组事件类型
+ */
+export type VersionCheckerGroupEventType = keyof VersionCheckerGroupEventMap;
+
+/**
+ * 版本检查器组事件接口
+ */
+export type VersionCheckerGroupEvent<K extends VersionCheckerGroupEventType = VersionCheckerGroupEventType> = {
+  [E in K]: {
+    /** 事件类型 */
+    type: E;
+    /** 事件携带的数据 */
+    payload: VersionCheckerGroupEventMap[E];
+    /** 事件发生的时间戳 */
+    timestamp: number;
+  };
+}[K];
+
+/**
+ * 版本检查器组事件监听器类型
+ */
+export type VersionCheckerGroupListener<K extends VersionCheckerGroupEventType = VersionCheckerGroupEventType> =
+  (event: VersionCheckerGroupEvent<K>) => unknown;
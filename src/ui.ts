@@ -0,0 +1,284 @@
+/**
+ * 更新提示组件
+ *
+ * @remarks
+ * 不依赖任何框架的更新提示 UI,挂载到 VersionChecker 后在 'update' 事件触发时
+ * 渲染一个可访问的 toast 或顶部 banner,提供"立即刷新"、"稍后提醒"和"忽略此版本"三个操作。
+ *
+ * - 样式通过 CSS 变量定制(--vs-bg、--vs-fg、--vs-accent 等)
+ * - 文案通过 messages 选项本地化
+ * - 作为独立入口 version-sentinel/ui 发布,不会增加核心包体积
+ *
+ * @example
+ * ```typescript
+ * import { createVersionChecker } from 'version-sentinel';
+ * import { attachUpdateNotifier } from 'version-sentinel/ui';
+ *
+ * const checker = createVersionChecker({ versionUrl: '/version.json', compareStrategy: 'json' });
+ * attachUpdateNotifier(checker, {
+ *   variant: 'banner',
+ *   snoozeMinutes: 10,
+ *   messages: { title: 'A new version is available' }
+ * });
+ * ```
+ */
+import type { VersionChecker } from './index';
+import type { VersionInfo } from './types';
+
+/**
+ * 更新提示的文案
+ */
+export interface UpdateNotifierMessages {
+  /** 标题 */
+  title: string;
+  /** 说明文字 */
+  description: string;
+  /** 刷新按钮 */
+  reload: string;
+  /** 稍后提醒按钮 */
+  later: string;
+  /** 忽略此版本按钮 */
+  dismiss: string;
+}
+
+/**
+ * 更新提示配置选项
+ */
+export interface UpdateNotifierOptions {
+  /**
+   * 展示形式
+   * @remarks
+   * - toast: 右下角浮层
+   * - banner: 页面顶部横幅
+   * @defaultValue 'toast'
+   */
+  variant?: 'toast' | 'banner';
+
+  /**
+   * 点击"稍后提醒"后再次提示的间隔(分钟)
+   * @defaultValue 30
+   */
+  snoozeMinutes?: number;
+
+  /**
+   * 文案,未提供的字段使用默认中文文案
+   */
+  messages?: Partial<UpdateNotifierMessages>;
+
+  /**
+   * 挂载容器
+   * @defaultValue document.body
+   */
+  container?: HTMLElement;
+
+  /**
+   * 点击"立即刷新"时执行的操作
+   * @defaultValue () => checker.reload()
+   */
+  onReload?: (info: VersionInfo) => void;
+}
+
+/**
+ * 更新提示控制器
+ */
+export interface UpdateNotifier {
+  /** 立即展示指定版本的更新提示 */
+  show(info: VersionInfo): void;
+  /** 隐藏更新提示 */
+  hide(): void;
+  /** 移除 DOM 和事件监听,取消稍后提醒 */
+  destroy(): void;
+}
+
+/** 默认文案 */
+const DEFAULT_MESSAGES: UpdateNotifierMessages = {
+  title: '发现新版本',
+  description: '新版本已发布，刷新页面即可使用最新功能。',
+  reload: '立即刷新',
+  later: '稍后提醒',
+  dismiss: '忽略此版本'
+};
+
+/** 样式元素 id,多个提示组件共享同一份样式 */
+const STYLE_ID = 'version-sentinel-ui-style';
+
+/** 组件样式,颜色、圆角、层级等均可通过 CSS 变量覆盖 */
+const STYLES = `
+.vs-notifier {
+  position: fixed;
+  z-index: var(--vs-z-index, 2147483000);
+  display: flex;
+  gap: 12px;
+  align-items: center;
+  box-sizing: border-box;
+  padding: 12px 16px;
+  color: var(--vs-fg, #1f2329);
+  background: var(--vs-bg, #ffffff);
+  font: var(--vs-font, 14px/1.5 -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif);
+  box-shadow: var(--vs-shadow, 0 6px 24px rgba(0, 0, 0, 0.16));
+}
+.vs-notifier[hidden] { display: none; }
+.vs-notifier--toast {
+  right: 16px;
+  bottom: 16px;
+  max-width: 360px;
+  flex-wrap: wrap;
+  border-radius: var(--vs-radius, 8px);
+}
+.vs-notifier--banner { top: 0; left: 0; right: 0; }
+.vs-notifier__text { flex: 1 1 200px; }
+.vs-notifier__title { margin: 0; font-weight: 600; }
+.vs-notifier__description { margin: 0; color: var(--vs-muted, #646a73); }
+.vs-notifier__actions { display: flex; gap: 8px; }
+.vs-notifier__button {
+  padding: 4px 12px;
+  border: 1px solid var(--vs-border, #d0d3d6);
+  border-radius: var(--vs-radius, 8px);
+  color: inherit;
+  background: transparent;
+  font: inherit;
+  cursor: pointer;
+}
+.vs-notifier__button--primary {
+  border-color: var(--vs-accent, #3370ff);
+  color: var(--vs-accent-fg, #ffffff);
+  background: var(--vs-accent, #3370ff);
+}
+.vs-notifier__button:focus-visible {
+  outline: 2px solid var(--vs-accent, #3370ff);
+  outline-offset: 2px;
+}
+`;
+
+/**
+ * 挂载更新提示组件
+ *
+ * @param checker - 版本检查器实例
+ * @param options - 配置选项
+ * @returns 更新提示控制器
+ *
+ * @remarks
+ * - 立即刷新: 调用 onReload,默认刷新页面
+ * - 稍后提醒: 隐藏提示,snoozeMinutes 分钟后再次展示最新的更新
+ * - 忽略此版本: 调用 checker.acknowledge() 确认该版本并隐藏提示
+ */
+export function attachUpdateNotifier(checker: VersionChecker, options: UpdateNotifierOptions = {}): UpdateNotifier {
+  const messages = { ...DEFAULT_MESSAGES, ...options.messages };
+  const variant = options.variant ?? 'toast';
+  const snoozeMinutes = options.snoozeMinutes ?? 30;
+  const onReload = options.onReload ?? (() => checker.reload());
+  const container = options.container ?? document.body;
+
+  injectStyles();
+
+  const root = document.createElement('div');
+  root.className = `vs-notifier vs-notifier--${variant}`;
+  root.setAttribute('role', 'status');
+  root.setAttribute('aria-live', 'polite');
+  root.hidden = true;
+
+  const text = document.createElement('div');
+  text.className = 'vs-notifier__text';
+  const title = document.createElement('p');
+  title.className = 'vs-notifier__title';
+  title.textContent = messages.title;
+  const description = document.createElement('p');
+  description.className = 'vs-notifier__description';
+  description.textContent = messages.description;
+  text.append(title, description);
+
+  const actions = document.createElement('div');
+  actions.className = 'vs-notifier__actions';
+  const createButton = (label: string, action: string, primary = false) => {
+    const button = document.createElement('button');
+    button.type = 'button';
+    button.className = `vs-notifier__button${primary ? ' vs-notifier__button--primary' : ''}`;
+    button.dataset.action = action;
+    button.textContent = label;
+    actions.append(button);
+  };
+  createButton(messages.reload, 'reload', true);
+  createButton(messages.later, 'later');
+  createButton(messages.dismiss, 'dismiss');
+
+  root.append(text, actions);
+  container.append(root);
+
+  let current: VersionInfo | null = null;
+  let snoozeTimer: NodeJS.Timeout | null = null;
+
+  const cancelSnooze = () => {
+    if (snoozeTimer) {
+      clearTimeout(snoozeTimer);
+      snoozeTimer = null;
+    }
+  };
+
+  const show = (info: VersionInfo) => {
+    cancelSnooze();
+    current = info;
+    root.dataset.version = info.newVersion ?? '';
+    root.hidden = false;
+  };
+
+  const hide = () => {
+    root.hidden = true;
+  };
+
+  const handleClick = (event: MouseEvent) => {
+    const action = (event.target as HTMLElement).closest<HTMLElement>('[data-action]')?.dataset.action;
+    if (!action || !current) {
+      return;
+    }
+
+    const info = current;
+    switch (action) {
+      case 'reload':
+        onReload(info);
+        break;
+      case 'later':
+        hide();
+        snoozeTimer = setTimeout(() => show(info), snoozeMinutes * 60 * 1000);
+        break;
+      case 'dismiss':
+        checker.acknowledge(info.newVersion);
+        current = null;
+        hide();
+        break;
+    }
+  };
+
+  const handleKeydown = (event: KeyboardEvent) => {
+    if (event.key === 'Escape') {
+      hide();
+    }
+  };
+
+
+  root.addEventListener('click', handleClick);
+  root.addEventListener('keydown', handleKeydown);
+  const unsubscribe = checker.on('update', event => show(event.payload));
+
+  return {
+    show,
+    hide,
+    destroy: () => {
+      cancelSnooze();
+      unsubscribe();
+      root.remove();
+    }
+  };
+}
+
+/**
+ * 注入组件样式,已存在时跳过
+ */
+function injectStyles(): void {
+  if (document.getElementById(STYLE_ID)) {
+    return;
+  }
+  const style = document.createElement('style');
+  style.id = STYLE_ID;
+  style.textContent = STYLES;
+  document.head.append(style);
+}
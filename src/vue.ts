@@ -0,0 +1,78 @@
+/**
+ * Vue 3 适配器
+ * 
+ * @remarks
+ * 作为独立入口 version-sentinel/vue 发布。在组件 setup(或 effectScope)中调用时,
+ * 作用域销毁时自动释放共享的版本检查器;同一个 versionUrl 的多个组件共享同一个检查器。
+ * 
+ * @example
+ * ```vue
+ * <script setup lang="ts">
+ * import { useVersionSentinel } from 'version-sentinel/vue';
+ * 
+ * const { updateAvailable, latest, reload } = useVersionSentinel({
+ *   versionUrl: '/version.json',
+ *   compareStrategy: 'json'
+ * });
+ * </script>
+ * 
+ * <template>
+ *   <button v-if="updateAvailable" @click="reload">新版本 {{ latest?.newVersion }} 已发布，点击刷新</button>
+ * </template>
+ * ```
+ */
+import { computed, getCurrentScope, onScopeDispose, shallowRef, ComputedRef } from 'vue';
+import { acquireStore, releaseStore } from './store';
+import type { VersionChecker } from './index';
+import { VersionCheckerOptions, VersionInfo } from './types';
+
+/**
+ * useVersionSentinel 的返回值
+ */
+export interface UseVersionSentinelReturn {
+  /** 是否检测到更新 */
+  updateAvailable: ComputedRef<boolean>;
+  /** 最近一次获取到的版本信息 */
+  latest: ComputedRef<VersionInfo | null>;
+  /** 最近一次检查的错误 */
+  error: ComputedRef<unknown>;
+  /** 是否正在检查 */
+  checking: ComputedRef<boolean>;
+  /** 手动检查一次,失败时返回 null */
+  check: () => Promise<VersionInfo | null>;
+  /** 刷新页面 */
+  reload: () => void;
+  /** 共享的版本检查器 */
+  checker: VersionChecker;
+}
+
+/**
+ * 在 Vue 组件中使用版本检查器
+ * 
+ * @param options - 版本检查器配置选项,同一个 versionUrl 以首个调用者传入的配置为准
+ * @returns 响应式的版本状态和操作
+ */
+export function useVersionSentinel(options: VersionCheckerOptions = {}): UseVersionSentinelReturn {
+  const store = acquireStore(options);
+  const state = shallowRef(store.getState());
+  const unsubscribe = store.subscribe(() => {
+    state.value = store.getState();
+  });
+
+  if (getCurrentScope()) {
+    onScopeDispose(() => {
+      unsubscribe();
+      releaseStore(store);
+    });
+  }
+
+  return {
+    updateAvailable: computed(() => state.value.updateAvailable),
+    latest: computed(() => state.value.latest),
+    error: computed(() => state.value.error),
+    checking: computed(() => state.value.checking),
+    check: store.check,
+    reload: store.reload,
+    checker: store.checker
+  };
+}